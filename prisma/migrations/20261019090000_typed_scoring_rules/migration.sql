@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "group_scoring_rules" ADD COLUMN     "parameters" JSONB NOT NULL DEFAULT '{}',
+ADD COLUMN     "rule_type" TEXT NOT NULL DEFAULT 'unclassified';
+
+-- Backfill rule types from the legacy descriptions, matching whole words only, most specific first
+UPDATE "group_scoring_rules" SET "rule_type" = 'exact_score', "parameters" = '{"exclusive": true}' WHERE "rule_type" = 'unclassified' AND "rule_description" ~* '\m(exact|exacte)\M';
+UPDATE "group_scoring_rules" SET "rule_type" = 'goal_difference' WHERE "rule_type" = 'unclassified' AND "rule_description" ~* '\m(goal difference|difference|écart|ecart)\M';
+UPDATE "group_scoring_rules" SET "rule_type" = 'total_goals' WHERE "rule_type" = 'unclassified' AND "rule_description" ~* '\mtotal goals\M';
+UPDATE "group_scoring_rules" SET "rule_type" = 'correct_draw' WHERE "rule_type" = 'unclassified' AND "rule_description" ~* '\m(draw|tie|match nul)\M';
+UPDATE "group_scoring_rules" SET "rule_type" = 'correct_winner' WHERE "rule_type" = 'unclassified' AND "rule_description" ~* '\m(winner|vainqueur|gagnant|correct result)\M';
+
+-- Rules that could not be classified are left as 'unclassified'. They award no
+-- points and are ignored when deciding whether a group falls back to the defaults.
+
+ALTER TABLE "group_scoring_rules" ALTER COLUMN "rule_type" DROP DEFAULT;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "matches" ADD COLUMN     "regulation_away_score" INTEGER,
+ADD COLUMN     "regulation_home_score" INTEGER,
+ADD COLUMN     "result_type" TEXT;
+
+-- AlterTable
+ALTER TABLE "predictions" ADD COLUMN     "result_type_prediction" TEXT;
+
+-- Existing finished matches were all recorded as regulation results
+UPDATE "matches"
+SET "result_type" = 'regulation',
+    "regulation_home_score" = "home_score",
+    "regulation_away_score" = "away_score"
+WHERE "home_score" IS NOT NULL AND "away_score" IS NOT NULL;
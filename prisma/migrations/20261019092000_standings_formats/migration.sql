@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "competitions" ADD COLUMN     "standings_format" TEXT NOT NULL DEFAULT 'nhl',
+ADD COLUMN     "standings_tiebreakers" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "competitions" ADD COLUMN     "playoff_spots" INTEGER;
+
+-- AlterTable
+ALTER TABLE "teams" ADD COLUMN     "division_id" INTEGER;
+
+-- CreateTable
+CREATE TABLE "divisions" (
+    "id" SERIAL NOT NULL,
+    "competition_id" INTEGER NOT NULL,
+    "parent_id" INTEGER,
+    "name" TEXT NOT NULL,
+    "short_name" TEXT,
+    "type" TEXT NOT NULL DEFAULT 'division',
+    "qualifying_spots" INTEGER,
+    "wildcard_spots" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "divisions_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "teams" ADD CONSTRAINT "teams_division_id_fkey" FOREIGN KEY ("division_id") REFERENCES "divisions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "divisions" ADD CONSTRAINT "divisions_competition_id_fkey" FOREIGN KEY ("competition_id") REFERENCES "competitions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "divisions" ADD CONSTRAINT "divisions_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "divisions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,78 @@
+-- AlterTable
+ALTER TABLE "groups" ADD COLUMN     "bracket_challenge" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "bracket_length_points" INTEGER NOT NULL DEFAULT 2,
+ADD COLUMN     "bracket_winner_points" INTEGER NOT NULL DEFAULT 3;
+
+-- AlterTable
+ALTER TABLE "matches" ADD COLUMN     "series_id" INTEGER;
+
+-- CreateTable
+CREATE TABLE "playoff_series" (
+    "id" SERIAL NOT NULL,
+    "competition_id" INTEGER NOT NULL,
+    "round" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL,
+    "best_of" INTEGER NOT NULL DEFAULT 7,
+    "top_team_id" INTEGER,
+    "bottom_team_id" INTEGER,
+    "top_seed" INTEGER,
+    "bottom_seed" INTEGER,
+    "top_wins" INTEGER NOT NULL DEFAULT 0,
+    "bottom_wins" INTEGER NOT NULL DEFAULT 0,
+    "winner_team_id" INTEGER,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "next_series_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "playoff_series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bracket_predictions" (
+    "id" SERIAL NOT NULL,
+    "group_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "series_id" INTEGER NOT NULL,
+    "winner_team_id" INTEGER NOT NULL,
+    "games" INTEGER NOT NULL,
+    "points_earned" INTEGER,
+    "predicted_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bracket_predictions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "playoff_series_competition_id_round_position_key" ON "playoff_series"("competition_id", "round", "position");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bracket_predictions_group_id_user_id_series_id_key" ON "bracket_predictions"("group_id", "user_id", "series_id");
+
+-- AddForeignKey
+ALTER TABLE "matches" ADD CONSTRAINT "matches_series_id_fkey" FOREIGN KEY ("series_id") REFERENCES "playoff_series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "playoff_series" ADD CONSTRAINT "playoff_series_competition_id_fkey" FOREIGN KEY ("competition_id") REFERENCES "competitions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "playoff_series" ADD CONSTRAINT "playoff_series_top_team_id_fkey" FOREIGN KEY ("top_team_id") REFERENCES "teams"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "playoff_series" ADD CONSTRAINT "playoff_series_bottom_team_id_fkey" FOREIGN KEY ("bottom_team_id") REFERENCES "teams"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "playoff_series" ADD CONSTRAINT "playoff_series_winner_team_id_fkey" FOREIGN KEY ("winner_team_id") REFERENCES "teams"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "playoff_series" ADD CONSTRAINT "playoff_series_next_series_id_fkey" FOREIGN KEY ("next_series_id") REFERENCES "playoff_series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bracket_predictions" ADD CONSTRAINT "bracket_predictions_group_id_fkey" FOREIGN KEY ("group_id") REFERENCES "groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bracket_predictions" ADD CONSTRAINT "bracket_predictions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bracket_predictions" ADD CONSTRAINT "bracket_predictions_series_id_fkey" FOREIGN KEY ("series_id") REFERENCES "playoff_series"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bracket_predictions" ADD CONSTRAINT "bracket_predictions_winner_team_id_fkey" FOREIGN KEY ("winner_team_id") REFERENCES "teams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "group_questions" (
+    "id" SERIAL NOT NULL,
+    "group_id" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "question" TEXT NOT NULL,
+    "options" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "points" INTEGER NOT NULL,
+    "locks_at" TIMESTAMP(3) NOT NULL,
+    "correct_answer" TEXT,
+    "resolved_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "group_questions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "question_answers" (
+    "id" SERIAL NOT NULL,
+    "question_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "answer" TEXT NOT NULL,
+    "points_earned" INTEGER,
+    "answered_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "question_answers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "question_answers_question_id_user_id_key" ON "question_answers"("question_id", "user_id");
+
+-- AddForeignKey
+ALTER TABLE "group_questions" ADD CONSTRAINT "group_questions_group_id_fkey" FOREIGN KEY ("group_id") REFERENCES "groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "question_answers" ADD CONSTRAINT "question_answers_question_id_fkey" FOREIGN KEY ("question_id") REFERENCES "group_questions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "question_answers" ADD CONSTRAINT "question_answers_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "matches" ADD COLUMN "matchday" INTEGER;
+
+-- AlterTable
+ALTER TABLE "groups" ADD COLUMN "joker_allowance" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "joker_scope" TEXT NOT NULL DEFAULT 'competition',
+ADD COLUMN "joker_multiplier" INTEGER NOT NULL DEFAULT 2;
+
+-- AlterTable
+ALTER TABLE "predictions" ADD COLUMN "is_joker" BOOLEAN NOT NULL DEFAULT false;
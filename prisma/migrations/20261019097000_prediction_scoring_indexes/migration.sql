@@ -0,0 +1,5 @@
+-- CreateIndex
+CREATE INDEX "predictions_match_id_idx" ON "predictions"("match_id");
+
+-- CreateIndex
+CREATE INDEX "predictions_group_id_user_id_idx" ON "predictions"("group_id", "user_id");
@@ -0,0 +1,58 @@
+-- AlterTable
+ALTER TABLE "groups" ADD COLUMN "join_mode" TEXT NOT NULL DEFAULT 'invite_code',
+ADD COLUMN "max_members" INTEGER;
+
+-- Public groups were open to anyone, private groups needed the invite code
+UPDATE "groups" SET "join_mode" = 'open' WHERE "visibility" = 'public';
+
+-- CreateTable
+CREATE TABLE "group_join_requests" (
+    "id" SERIAL NOT NULL,
+    "group_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "message" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "decided_by_id" INTEGER,
+    "decided_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "group_join_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "group_bans" (
+    "id" SERIAL NOT NULL,
+    "group_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "banned_by_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "group_bans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "group_join_requests_group_id_status_idx" ON "group_join_requests"("group_id", "status");
+
+-- CreateIndex
+CREATE INDEX "group_join_requests_user_id_idx" ON "group_join_requests"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "group_bans_group_id_user_id_key" ON "group_bans"("group_id", "user_id");
+
+-- AddForeignKey
+ALTER TABLE "group_join_requests" ADD CONSTRAINT "group_join_requests_group_id_fkey" FOREIGN KEY ("group_id") REFERENCES "groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "group_join_requests" ADD CONSTRAINT "group_join_requests_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "group_join_requests" ADD CONSTRAINT "group_join_requests_decided_by_id_fkey" FOREIGN KEY ("decided_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "group_bans" ADD CONSTRAINT "group_bans_group_id_fkey" FOREIGN KEY ("group_id") REFERENCES "groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "group_bans" ADD CONSTRAINT "group_bans_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "group_bans" ADD CONSTRAINT "group_bans_banned_by_id_fkey" FOREIGN KEY ("banned_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
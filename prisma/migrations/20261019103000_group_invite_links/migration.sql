@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "group_invite_links" (
+    "id" SERIAL NOT NULL,
+    "group_id" INTEGER NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT,
+    "created_by_id" INTEGER,
+    "expires_at" TIMESTAMP(3),
+    "max_uses" INTEGER,
+    "uses" INTEGER NOT NULL DEFAULT 0,
+    "disabled_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "group_invite_links_pkey" PRIMARY KEY ("id")
+);
+
+-- Existing invite codes become each group's default link
+INSERT INTO "group_invite_links" ("group_id", "code", "name", "created_by_id", "created_at")
+SELECT "id", "invite_code", 'Default', "owner_id", "created_at"
+FROM "groups"
+WHERE "invite_code" IS NOT NULL;
+
+-- DropIndex
+DROP INDEX "groups_invite_code_key";
+
+-- AlterTable
+ALTER TABLE "groups" DROP COLUMN "invite_code";
+
+-- AlterTable
+ALTER TABLE "group_members" ADD COLUMN "invite_link_id" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "group_invite_links_code_key" ON "group_invite_links"("code");
+
+-- CreateIndex
+CREATE INDEX "group_invite_links_group_id_idx" ON "group_invite_links"("group_id");
+
+-- AddForeignKey
+ALTER TABLE "group_members" ADD CONSTRAINT "group_members_invite_link_id_fkey" FOREIGN KEY ("invite_link_id") REFERENCES "group_invite_links"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "group_invite_links" ADD CONSTRAINT "group_invite_links_group_id_fkey" FOREIGN KEY ("group_id") REFERENCES "groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "group_invite_links" ADD CONSTRAINT "group_invite_links_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "language" TEXT NOT NULL DEFAULT 'en';
+
+-- AlterTable
+ALTER TABLE "group_invitations" ADD COLUMN "language" TEXT NOT NULL DEFAULT 'en';
+
+-- CreateTable
+CREATE TABLE "outbox_emails" (
+    "id" SERIAL NOT NULL,
+    "template" TEXT NOT NULL,
+    "language" TEXT NOT NULL DEFAULT 'en',
+    "to_address" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "html" TEXT,
+    "invitation_id" INTEGER,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "max_attempts" INTEGER NOT NULL DEFAULT 5,
+    "next_attempt_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_error" TEXT,
+    "locked_at" TIMESTAMP(3),
+    "sent_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "outbox_emails_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "outbox_emails_status_next_attempt_at_idx" ON "outbox_emails"("status", "next_attempt_at");
+
+-- CreateIndex
+CREATE INDEX "outbox_emails_invitation_id_idx" ON "outbox_emails"("invitation_id");
+
+-- AddForeignKey
+ALTER TABLE "outbox_emails" ADD CONSTRAINT "outbox_emails_invitation_id_fkey" FOREIGN KEY ("invitation_id") REFERENCES "group_invitations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
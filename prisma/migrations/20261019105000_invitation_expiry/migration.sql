@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "groups" ADD COLUMN "invitation_expiry_days" INTEGER NOT NULL DEFAULT 7;
+
+-- Invitations that expired before the sweep existed
+UPDATE "group_invitations" SET "status" = 'expired' WHERE "status" = 'pending' AND "expires_at" <= CURRENT_TIMESTAMP;
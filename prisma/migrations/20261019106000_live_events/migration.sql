@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "live_events" (
+    "id" SERIAL NOT NULL,
+    "payload" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "live_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "live_events_created_at_idx" ON "live_events"("created_at");
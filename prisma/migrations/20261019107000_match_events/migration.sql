@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "match_events" (
+    "id" SERIAL NOT NULL,
+    "match_id" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "period" INTEGER NOT NULL,
+    "period_time" INTEGER NOT NULL DEFAULT 0,
+    "team_id" INTEGER,
+    "player" TEXT,
+    "assists" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "strength" TEXT,
+    "penalty_minutes" INTEGER,
+    "description" TEXT,
+    "created_by_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "match_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "match_events_match_id_period_period_time_idx" ON "match_events"("match_id", "period", "period_time");
+
+-- AddForeignKey
+ALTER TABLE "match_events" ADD CONSTRAINT "match_events_match_id_fkey" FOREIGN KEY ("match_id") REFERENCES "matches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "match_events" ADD CONSTRAINT "match_events_team_id_fkey" FOREIGN KEY ("team_id") REFERENCES "teams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "match_events" ADD CONSTRAINT "match_events_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,130 @@
+/**
+ * @format
+ * @file check-brokers.ts
+ * @description Vérifie qu'un événement publié revient à tous les abonnés, pour MemoryBroker
+ * et PostgresBroker (y compris les messages trop gros pour NOTIFY, qui passent par "live_events").
+ * PostgresBroker est ignoré sans EVENT_BROKER_URL, POSTGRES_URL ou DATABASE_URL : npm run check:brokers
+ */
+
+import "dotenv/config";
+import { EventEmitter } from "events";
+import { config } from "../src/config/env";
+import { Broker, BrokerMessage, MemoryBroker, PostgresBroker } from "../src/services/broker.service";
+
+const TIMEOUT = 5000;
+
+// Plus gros que la limite de NOTIFY (7900 octets)
+const LARGE_PAYLOAD_SIZE = 10000;
+
+/**
+ * Boîte de réception d'une instance : garde les messages reçus par le broker
+ */
+class Inbox {
+  private messages: BrokerMessage[] = [];
+  private emitter = new EventEmitter();
+
+  constructor(public name: string) {}
+
+  receive(message: BrokerMessage) {
+    this.messages.push(message);
+    this.emitter.emit("message");
+  }
+
+  waitFor(event: string): Promise<BrokerMessage> {
+    return new Promise((resolve, reject) => {
+      const check = () => {
+        const message = this.messages.find((m) => m.event === event);
+        if (!message) return false;
+
+        clearTimeout(timer);
+        this.emitter.off("message", check);
+        resolve(message);
+        return true;
+      };
+
+      const timer = setTimeout(() => {
+        this.emitter.off("message", check);
+        reject(new Error(`${this.name} n'a pas reçu "${event}" en ${TIMEOUT} ms`));
+      }, TIMEOUT);
+
+      if (!check()) {
+        this.emitter.on("message", check);
+      }
+    });
+  }
+}
+
+async function subscribe(name: string, broker: Broker) {
+  const inbox = new Inbox(name);
+  await broker.subscribe((message) => inbox.receive(message));
+  return inbox;
+}
+
+/**
+ * Publie un message et attend qu'il revienne à l'identique dans chaque boîte
+ */
+async function roundTrip(label: string, publisher: Broker, inboxes: Inbox[], data: any) {
+  const message: BrokerMessage = {
+    topics: ["match:1", "all-matches"],
+    event: `check-${label}-${Date.now()}`,
+    data,
+  };
+
+  await publisher.publish(message);
+
+  for (const inbox of inboxes) {
+    const received = await inbox.waitFor(message.event);
+
+    if (JSON.stringify(received) !== JSON.stringify(message)) {
+      throw new Error(`${inbox.name} a reçu un message différent pour "${label}"`);
+    }
+  }
+
+  const size = Buffer.byteLength(JSON.stringify(message));
+  console.log(`   ✅ ${label} (${size} octets) reçu par ${inboxes.map((i) => i.name).join(", ")}`);
+}
+
+async function checkMemoryBroker() {
+  console.log("🔎 MemoryBroker");
+  const broker = new MemoryBroker();
+
+  try {
+    const inbox = await subscribe("instance", broker);
+    await roundTrip("petit message", broker, [inbox], { matchId: 1, homeScore: 2, awayScore: 1 });
+    await roundTrip("gros message", broker, [inbox], { padding: "x".repeat(LARGE_PAYLOAD_SIZE) });
+  } finally {
+    await broker.close();
+  }
+}
+
+async function checkPostgresBroker() {
+  console.log("🔎 PostgresBroker");
+
+  if (!config.events.databaseUrl) {
+    console.log("   ⏭️ Ignoré : EVENT_BROKER_URL, POSTGRES_URL ou DATABASE_URL n'est pas défini");
+    return;
+  }
+
+  // Deux brokers sur la même base simulent deux instances de l'API
+  const first = new PostgresBroker(config.events.databaseUrl);
+  const second = new PostgresBroker(config.events.databaseUrl);
+
+  try {
+    const inboxes = [await subscribe("instance A", first), await subscribe("instance B", second)];
+    await roundTrip("petit message", first, inboxes, { matchId: 1, homeScore: 2, awayScore: 1 });
+    await roundTrip("gros message via live_events", first, inboxes, { padding: "x".repeat(LARGE_PAYLOAD_SIZE) });
+  } finally {
+    await Promise.all([first.close(), second.close()]);
+  }
+}
+
+async function main() {
+  await checkMemoryBroker();
+  await checkPostgresBroker();
+  console.log("🎉 Les brokers fonctionnent.");
+}
+
+main().catch((e) => {
+  console.error("❌ Échec de la vérification des brokers :", e.message);
+  process.exit(1);
+});
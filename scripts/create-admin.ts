@@ -0,0 +1,46 @@
+/**
+ * @format
+ * @file create-admin.ts
+ * @description Script pour donner le rôle "admin" à un utilisateur existant.
+ * Sert à créer le premier administrateur : npm run admin:create -- email@exemple.com
+ */
+
+import "dotenv/config";
+import { PrismaClient } from "@prisma/client";
+import { z } from "zod";
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const email = z.string().email().parse(process.argv[2]);
+
+  const user = await prisma.user.findUnique({
+    where: { email },
+  });
+
+  if (!user) {
+    throw new Error(`Aucun utilisateur avec l'email ${email}`);
+  }
+
+  if (user.role === "admin") {
+    console.log(`ℹ️ ${user.username} est déjà administrateur.`);
+    return;
+  }
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { role: "admin" },
+  });
+
+  console.log(`✅ ${user.username} (${email}) est maintenant administrateur.`);
+  console.log("   Il doit se reconnecter pour que son jeton porte le nouveau rôle.");
+}
+
+main()
+  .catch((e) => {
+    console.error("❌ Erreur durant la création de l’administrateur :", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
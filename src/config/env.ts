@@ -7,11 +7,47 @@ export const config = {
   nodeEnv: process.env.NODE_ENV || 'development',
   jwt: {
     secret: process.env.JWT_SECRET || 'default-secret-change-me',
-    expiration: process.env.JWT_EXPIRATION || '24h',
+    expiration: process.env.JWT_EXPIRATION || '15m',
+    refreshSecret: process.env.JWT_REFRESH_SECRET || 'default-refresh-secret-change-me',
     refreshExpiration: process.env.REFRESH_TOKEN_EXPIRATION || '7d',
   },
   cors: {
     origins: process.env.CORS_ORIGINS?.split(',') || ['http://localhost:3000'],
   },
+  appUrl: process.env.APP_URL || 'http://localhost:3000',
+  mail: {
+    // console, file, smtp. Production must choose one, so emails are never only printed by mistake
+    transport: process.env.MAIL_TRANSPORT || (process.env.NODE_ENV === 'production' ? undefined : 'console'),
+    from: process.env.MAIL_FROM || 'FrozenBet <no-reply@frozenbet.app>',
+    outboxDir: process.env.MAIL_OUTBOX_DIR || 'outbox',
+    smtp: {
+      host: process.env.SMTP_HOST || 'localhost',
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+    },
+  },
+  jobs: {
+    enabled: process.env.JOBS_ENABLED !== 'false',
+    pollInterval: parseInt(process.env.JOB_POLL_INTERVAL || '15000', 10),
+    staleMatchHours: parseInt(process.env.STALE_MATCH_HOURS || '4', 10),
+    cronSecret: process.env.CRON_SECRET,
+  },
+  events: {
+    broker: process.env.EVENT_BROKER || 'memory', // memory, postgres
+    // LISTEN needs a direct connection, not a pooled or Accelerate URL
+    databaseUrl: process.env.EVENT_BROKER_URL || process.env.POSTGRES_URL || process.env.DATABASE_URL,
+  },
+  sse: {
+    retry: parseInt(process.env.SSE_RETRY_MS || '3000', 10),
+    heartbeatInterval: parseInt(process.env.SSE_HEARTBEAT_INTERVAL || '30000', 10),
+    bufferSize: parseInt(process.env.SSE_BUFFER_SIZE || '1000', 10),
+  },
+  websocket: {
+    pingInterval: parseInt(process.env.WS_PING_INTERVAL || '30000', 10),
+    maxBufferedBytes: parseInt(process.env.WS_MAX_BUFFERED_BYTES || '1048576', 10),
+    maxSubscriptions: parseInt(process.env.WS_MAX_SUBSCRIPTIONS || '50', 10),
+  },
   logLevel: process.env.LOG_LEVEL || 'info',
 };
@@ -6,17 +6,32 @@ import morgan from "morgan";
 import swaggerJsdoc from "swagger-jsdoc";
 import swaggerUi from "swagger-ui-express";
 import { config } from "./config/env";
+import { registerJobs } from "./jobs";
 import { errorHandler } from "./middleware/errorHandler";
+import { jobService } from "./services/job.service";
+import { MAIL_TRANSPORTS } from "./services/mail.service";
+import { sseService } from "./services/sse.service";
+import { websocketService } from "./services/websocket.service";
 import authRoutes from "./routes/auth.routes";
 import competitionRoutes from "./routes/competition.routes";
 import groupRoutes from "./routes/group.routes";
 import invitationRoutes from "./routes/invitation.routes";
 import matchRoutes from "./routes/match.routes";
+import notificationRoutes from "./routes/notification.routes";
 import predictionRoutes from "./routes/prediction.routes";
 import statisticsRoutes from "./routes/statistics.routes";
 import teamRoutes from "./routes/team.routes";
 import userRoutes from "./routes/user.routes";
 import sseRoutes from "./routes/sse.routes";
+import jobRoutes from "./routes/job.routes";
+
+// Check the settings the API cannot run without before serving anything
+if (!config.mail.transport) {
+  throw new Error("MAIL_TRANSPORT must be set in production: console, file or smtp");
+}
+if (!(MAIL_TRANSPORTS as readonly string[]).includes(config.mail.transport)) {
+  throw new Error(`Unknown MAIL_TRANSPORT "${config.mail.transport}": use console, file or smtp`);
+}
 
 const app = express();
 
@@ -153,8 +168,10 @@ app.use("/api/groups", groupRoutes);
 app.use("/api/predictions", predictionRoutes);
 app.use("/api/matches", matchRoutes);
 app.use("/api/invitations", invitationRoutes);
+app.use("/api/notifications", notificationRoutes);
 app.use("/api/statistics", statisticsRoutes);
 app.use("/api/sse", sseRoutes);
+app.use("/api/jobs", jobRoutes);
 
 // 404 handler
 app.use((req, res) => {
@@ -170,13 +187,27 @@ app.use((req, res) => {
 // Error handler (must be last)
 app.use(errorHandler);
 
+registerJobs();
+
 // Start server only if not in serverless environment (Vercel)
 if (process.env.VERCEL !== '1') {
-  app.listen(config.port, () => {
+  const server = app.listen(config.port, () => {
     console.log(`\n🚀 Server running on http://localhost:${config.port}`);
     console.log(`📚 API Documentation: http://localhost:${config.port}/api/docs`);
+    console.log(`📡 WebSocket: ws://localhost:${config.port}/api/ws`);
     console.log(`🏒 FrozenBet API - Hockey Predictions Platform`);
   });
+
+  // Receive live events from the other instances, serverless streams subscribe on their first client
+  sseService.start().catch((error) => console.error("Failed to subscribe to live events:", error));
+
+  // Serverless functions cannot hold WebSocket connections
+  websocketService.attach(server);
+
+  // Serverless deployments run the jobs from a cron calling /api/jobs/run instead
+  if (config.jobs.enabled) {
+    jobService.start().catch((error) => console.error("Failed to start job runner:", error));
+  }
 }
 
 // Export for Vercel
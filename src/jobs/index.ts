@@ -0,0 +1,50 @@
+import { AuthService } from '../services/auth.service';
+import { purgeLiveEvents } from '../services/broker.service';
+import { InvitationService } from '../services/invitation.service';
+import { jobService } from '../services/job.service';
+import { MatchService } from '../services/match.service';
+import { outboxService } from '../services/outbox.service';
+import { SCORE_MATCH_JOB, scoringService } from '../services/scoring.service';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Register the handlers of every background job type
+ */
+export const registerJobs = (): void => {
+  const matchService = new MatchService();
+  const authService = new AuthService();
+  const invitationService = new InvitationService();
+
+  jobService.register(SCORE_MATCH_JOB, (payload) => scoringService.scoreMatch(payload));
+
+  jobService.register('start-due-matches', () => matchService.startDueMatches(), {
+    interval: MINUTE,
+  });
+
+  jobService.register('flag-stale-matches', () => matchService.flagStaleMatches(), {
+    interval: 15 * MINUTE,
+  });
+
+  jobService.register('deliver-emails', () => outboxService.deliverDue(), {
+    interval: MINUTE,
+  });
+
+  jobService.register('expire-invitations', () => invitationService.expireInvitations(), {
+    interval: HOUR,
+  });
+
+  jobService.register('purge-refresh-tokens', () => authService.purgeExpiredRefreshTokens(), {
+    interval: DAY,
+  });
+
+  jobService.register('purge-live-events', () => purgeLiveEvents(HOUR), {
+    interval: HOUR,
+  });
+
+  jobService.register('purge-finished-jobs', () => jobService.purgeFinishedJobs(7 * DAY), {
+    interval: DAY,
+  });
+};
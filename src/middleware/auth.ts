@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { verifyToken, JWTPayload } from '../utils/jwt';
+import { verifyToken, JWTPayload, PlatformRole } from '../utils/jwt';
 import { sendError } from '../utils/response';
 
 export interface AuthRequest extends Request {
@@ -29,6 +29,33 @@ export const authenticate = (
   }
 };
 
+/**
+ * Like authenticate, but also accepts the token in the access_token query
+ * parameter, since the browser EventSource API cannot send headers
+ */
+export const authenticateStream = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  const authHeader = req.headers.authorization;
+  const token = authHeader && authHeader.startsWith('Bearer ')
+    ? authHeader.substring(7)
+    : req.query.access_token as string | undefined;
+
+  if (!token) {
+    sendError(res, 'UNAUTHORIZED', 'No token provided', 401);
+    return;
+  }
+
+  try {
+    req.user = verifyToken(token);
+    next();
+  } catch (error) {
+    sendError(res, 'UNAUTHORIZED', 'Invalid or expired token', 401);
+  }
+};
+
 export const optionalAuth = (
   req: AuthRequest,
   res: Response,
@@ -48,3 +75,24 @@ export const optionalAuth = (
     next();
   }
 };
+
+/**
+ * Only let users with one of the platform roles through. Use after authenticate.
+ */
+export const authorize = (...roles: PlatformRole[]) => (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!req.user) {
+    sendError(res, 'UNAUTHORIZED', 'No token provided', 401);
+    return;
+  }
+
+  if (!roles.includes(req.user.role)) {
+    sendError(res, 'FORBIDDEN', 'Insufficient permissions', 403);
+    return;
+  }
+
+  next();
+};
@@ -7,6 +7,10 @@ import {
   loginSchema,
   changePasswordSchema,
   updateProfileSchema,
+  refreshTokenSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
 } from '../validators/auth.validator';
 
 const router = Router();
@@ -129,6 +133,11 @@ router.get('/me', authenticate, async (req: AuthRequest, res, next) => {
  *                 type: string
  *               email:
  *                 type: string
+ *                 description: Stored as pendingEmail until the new address is verified
+ *               language:
+ *                 type: string
+ *                 enum: [en, fr]
+ *                 description: Language of the emails sent to the user
  *     responses:
  *       200:
  *         description: Profile updated
@@ -178,7 +187,8 @@ router.post(
       const result = await authService.changePassword(
         req.user!.userId,
         currentPassword,
-        newPassword
+        newPassword,
+        req.user!.sessionId
       );
       sendSuccess(res, result);
     } catch (error) {
@@ -187,12 +197,137 @@ router.post(
   }
 );
 
+/**
+ * @swagger
+ * /api/auth/forgot-password:
+ *   post:
+ *     summary: Request a password reset email
+ *     tags: [Auth]
+ *     description: Responds the same way whether or not an account uses the email
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Reset email sent if the account exists
+ */
+router.post('/forgot-password', async (req, res, next) => {
+  try {
+    const { email } = forgotPasswordSchema.parse(req.body);
+    const result = await authService.forgotPassword(email);
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/reset-password:
+ *   post:
+ *     summary: Set a new password with a reset token
+ *     tags: [Auth]
+ *     description: The token can be used once. Every session of the user is signed out.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - newPassword
+ *             properties:
+ *               token:
+ *                 type: string
+ *               newPassword:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Password reset
+ *       400:
+ *         description: Invalid or expired token
+ */
+router.post('/reset-password', async (req, res, next) => {
+  try {
+    const { token, newPassword } = resetPasswordSchema.parse(req.body);
+    const result = await authService.resetPassword(token, newPassword);
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/verify-email:
+ *   post:
+ *     summary: Verify an email address
+ *     tags: [Auth]
+ *     description: Confirms the address of a new account, or applies a pending email change
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email verified
+ *       400:
+ *         description: Invalid or expired token
+ */
+router.post('/verify-email', async (req, res, next) => {
+  try {
+    const { token } = verifyEmailSchema.parse(req.body);
+    const result = await authService.verifyEmail(token);
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/resend-verification:
+ *   post:
+ *     summary: Send the email verification link again
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification email sent
+ */
+router.post('/resend-verification', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const result = await authService.resendEmailVerification(req.user!.userId);
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * @swagger
  * /api/auth/logout:
  *   post:
  *     summary: Logout user
  *     tags: [Auth]
+ *     description: Revokes the refresh tokens of the current session
  *     security:
  *       - bearerAuth: []
  *     responses:
@@ -201,7 +336,8 @@ router.post(
  */
 router.post('/logout', authenticate, async (req: AuthRequest, res, next) => {
   try {
-    sendSuccess(res, { message: 'Logout successful' });
+    const result = await authService.logout(req.user!.sessionId);
+    sendSuccess(res, result);
   } catch (error) {
     next(error);
   }
@@ -209,19 +345,54 @@ router.post('/logout', authenticate, async (req: AuthRequest, res, next) => {
 
 /**
  * @swagger
- * /api/auth/refresh:
+ * /api/auth/logout-all:
  *   post:
- *     summary: Refresh JWT token
+ *     summary: Logout from every session
  *     tags: [Auth]
+ *     description: Revokes the refresh tokens of all the user's sessions
  *     security:
  *       - bearerAuth: []
  *     responses:
  *       200:
+ *         description: All sessions revoked
+ */
+router.post('/logout-all', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const result = await authService.logoutEverywhere(req.user!.userId);
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *   post:
+ *     summary: Refresh JWT token
+ *     tags: [Auth]
+ *     description: Rotates the refresh token. Reusing a refresh token revokes its session.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
  *         description: Token refreshed
+ *       401:
+ *         description: Invalid, expired or reused refresh token
  */
-router.post('/refresh', authenticate, async (req: AuthRequest, res, next) => {
+router.post('/refresh', async (req, res, next) => {
   try {
-    const result = await authService.refreshToken(req.user!.userId);
+    const { refreshToken } = refreshTokenSchema.parse(req.body);
+    const result = await authService.refreshToken(refreshToken);
     sendSuccess(res, result, 'Token refreshed successfully');
   } catch (error) {
     next(error);
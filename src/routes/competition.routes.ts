@@ -1,10 +1,23 @@
 import { Router } from 'express';
 import { CompetitionService } from '../services/competition.service';
-import { authenticate, AuthRequest } from '../middleware/auth';
+import { PlayoffService } from '../services/playoff.service';
+import { PredictionService } from '../services/prediction.service';
+import { authenticate, authorize, AuthRequest } from '../middleware/auth';
 import { sendSuccess } from '../utils/response';
+import {
+  createCompetitionSchema,
+  updateCompetitionSchema,
+  standingsQuerySchema,
+  createDivisionSchema,
+  updateDivisionSchema,
+  assignDivisionTeamsSchema,
+} from '../validators/competition.validator';
+import { createBracketSchema } from '../validators/playoff.validator';
 
 const router = Router();
 const competitionService = new CompetitionService();
+const playoffService = new PlayoffService();
+const predictionService = new PredictionService();
 
 /**
  * @swagger
@@ -78,13 +91,27 @@ router.get('/', async (req, res, next) => {
  *                 format: date
  *               season:
  *                 type: string
+ *               standingsFormat:
+ *                 type: string
+ *                 enum: [nhl, iihf, classic]
+ *                 default: nhl
+ *               standingsTiebreakers:
+ *                 type: array
+ *                 description: Overrides the format's tiebreaker order
+ *                 items:
+ *                   type: string
+ *                   enum: [regulation_wins, regulation_overtime_wins, wins, head_to_head, goal_difference, goals_for]
+ *               playoffSpots:
+ *                 type: integer
+ *                 description: Number of teams qualifying from the overall standings
  *     responses:
  *       201:
  *         description: Competition created successfully
  */
-router.post('/', authenticate, async (req, res, next) => {
+router.post('/', authenticate, authorize('editor', 'admin'), async (req, res, next) => {
   try {
-    const competition = await competitionService.createCompetition(req.body);
+    const data = createCompetitionSchema.parse(req.body);
+    const competition = await competitionService.createCompetition(data);
     sendSuccess(res, competition, 'Competition created', 201);
   } catch (error) {
     next(error);
@@ -152,13 +179,24 @@ router.get('/:id', async (req, res, next) => {
  *               status:
  *                 type: string
  *                 enum: [upcoming, active, finished]
+ *               standingsFormat:
+ *                 type: string
+ *                 enum: [nhl, iihf, classic]
+ *               standingsTiebreakers:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [regulation_wins, regulation_overtime_wins, wins, head_to_head, goal_difference, goals_for]
+ *               playoffSpots:
+ *                 type: integer
  *     responses:
  *       200:
  *         description: Competition updated successfully
  */
-router.put('/:id', authenticate, async (req, res, next) => {
+router.put('/:id', authenticate, authorize('editor', 'admin'), async (req, res, next) => {
   try {
-    const competition = await competitionService.updateCompetition(parseInt(req.params.id), req.body);
+    const data = updateCompetitionSchema.parse(req.body);
+    const competition = await competitionService.updateCompetition(parseInt(req.params.id), data);
     sendSuccess(res, competition);
   } catch (error) {
     next(error);
@@ -183,7 +221,7 @@ router.put('/:id', authenticate, async (req, res, next) => {
  *       200:
  *         description: Competition deleted successfully
  */
-router.delete('/:id', authenticate, async (req, res, next) => {
+router.delete('/:id', authenticate, authorize('editor', 'admin'), async (req, res, next) => {
   try {
     const result = await competitionService.deleteCompetition(parseInt(req.params.id));
     sendSuccess(res, result);
@@ -274,20 +312,337 @@ router.get('/:id/teams', async (req, res, next) => {
  *   get:
  *     summary: Get competition standings
  *     tags: [Competitions]
+ *     description: Points and tiebreakers follow the competition's standings format (nhl, iihf or classic)
  *     parameters:
  *       - in: path
  *         name: id
  *         required: true
  *         schema:
  *           type: integer
+ *       - in: query
+ *         name: groupBy
+ *         schema:
+ *           type: string
+ *           enum: [overall, conference, division]
+ *           default: overall
+ *         description: Split the standings by conference or division, re-ranked within each group
  *     responses:
  *       200:
- *         description: Competition standings
+ *         description: Competition standings with won, lost, overtimeLosses, regulationWins, regulationOvertimeWins and pointsPercentage columns. Cut lines (qualifying and wildcard spots) are returned in meta.cutLines
  */
 router.get('/:id/standings', async (req, res, next) => {
   try {
-    const standings = await competitionService.getCompetitionStandings(parseInt(req.params.id));
-    sendSuccess(res, standings);
+    const { groupBy } = standingsQuerySchema.parse(req.query);
+    const result = await competitionService.getCompetitionStandings(parseInt(req.params.id), groupBy);
+    sendSuccess(res, result.standings, 'Standings retrieved successfully', 200, result.meta);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/competitions/{id}/divisions:
+ *   get:
+ *     summary: Get the conference/division tree of a competition
+ *     tags: [Competitions]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Conferences with their divisions and teams
+ */
+router.get('/:id/divisions', async (req, res, next) => {
+  try {
+    const divisions = await competitionService.getDivisions(parseInt(req.params.id));
+    sendSuccess(res, divisions);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/competitions/{id}/divisions:
+ *   post:
+ *     summary: Create a conference or division
+ *     tags: [Competitions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *               shortName:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [conference, division]
+ *                 default: division
+ *               parentId:
+ *                 type: integer
+ *                 description: Conference containing this division
+ *               qualifyingSpots:
+ *                 type: integer
+ *                 description: Top N teams qualifying directly
+ *               wildcardSpots:
+ *                 type: integer
+ *                 description: Conference only, wildcard places for the best remaining teams
+ *     responses:
+ *       201:
+ *         description: Division created
+ */
+router.post('/:id/divisions', authenticate, authorize('editor', 'admin'), async (req, res, next) => {
+  try {
+    const data = createDivisionSchema.parse(req.body);
+    const division = await competitionService.createDivision(parseInt(req.params.id), data);
+    sendSuccess(res, division, 'Division created', 201);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/competitions/{id}/divisions/{divisionId}:
+ *   put:
+ *     summary: Update a conference or division
+ *     tags: [Competitions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: divisionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Division updated
+ */
+router.put('/:id/divisions/:divisionId', authenticate, authorize('editor', 'admin'), async (req, res, next) => {
+  try {
+    const data = updateDivisionSchema.parse(req.body);
+    const division = await competitionService.updateDivision(
+      parseInt(req.params.id),
+      parseInt(req.params.divisionId),
+      data
+    );
+    sendSuccess(res, division);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/competitions/{id}/divisions/{divisionId}:
+ *   delete:
+ *     summary: Delete a conference or division
+ *     tags: [Competitions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: divisionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Division deleted, its teams are left unassigned
+ */
+router.delete('/:id/divisions/:divisionId', authenticate, authorize('editor', 'admin'), async (req, res, next) => {
+  try {
+    const result = await competitionService.deleteDivision(
+      parseInt(req.params.id),
+      parseInt(req.params.divisionId)
+    );
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/competitions/{id}/divisions/{divisionId}/teams:
+ *   put:
+ *     summary: Assign teams to a conference or division
+ *     tags: [Competitions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: divisionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - teamIds
+ *             properties:
+ *               teamIds:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *     responses:
+ *       200:
+ *         description: Teams assigned
+ */
+router.put('/:id/divisions/:divisionId/teams', authenticate, authorize('editor', 'admin'), async (req, res, next) => {
+  try {
+    const { teamIds } = assignDivisionTeamsSchema.parse(req.body);
+    const result = await competitionService.assignTeamsToDivision(
+      parseInt(req.params.id),
+      parseInt(req.params.divisionId),
+      teamIds
+    );
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/competitions/{id}/playoffs:
+ *   get:
+ *     summary: Get the playoff bracket of a competition
+ *     tags: [Competitions]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Series grouped by round, with wins and winners
+ */
+router.get('/:id/playoffs', async (req, res, next) => {
+  try {
+    const bracket = await playoffService.getBracket(parseInt(req.params.id));
+    sendSuccess(res, bracket);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/competitions/{id}/playoffs:
+ *   post:
+ *     summary: Create the playoff bracket of a competition
+ *     tags: [Competitions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - teamIds
+ *             properties:
+ *               teamIds:
+ *                 type: array
+ *                 description: Teams in seed order (a power of two), first round pairs 1 v N, 2 v N-1...
+ *                 items:
+ *                   type: integer
+ *               bestOf:
+ *                 type: array
+ *                 description: Series length per round, the last value is reused for later rounds
+ *                 items:
+ *                   type: integer
+ *                 default: [7]
+ *     responses:
+ *       201:
+ *         description: Bracket created
+ */
+router.post('/:id/playoffs', authenticate, authorize('editor', 'admin'), async (req, res, next) => {
+  try {
+    const data = createBracketSchema.parse(req.body);
+    const bracket = await playoffService.createBracket(parseInt(req.params.id), data);
+    sendSuccess(res, bracket, 'Playoff bracket created', 201);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/competitions/{id}/rankings/rebuild:
+ *   post:
+ *     summary: Rebuild the rankings of every group in a competition
+ *     tags: [Competitions]
+ *     description: Rescores every prediction and recomputes member totals, including bracket and question points
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Rankings rebuilt
+ */
+router.post('/:id/rankings/rebuild', authenticate, authorize('admin'), async (req, res, next) => {
+  try {
+    const result = await predictionService.rebuildCompetitionRankings(parseInt(req.params.id));
+    sendSuccess(res, result, 'Rankings rebuilt successfully');
   } catch (error) {
     next(error);
   }
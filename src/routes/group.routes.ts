@@ -1,11 +1,38 @@
 import { Router } from 'express';
 import { GroupService } from '../services/group.service';
+import { InviteLinkService } from '../services/inviteLink.service';
+import { JoinRequestService } from '../services/joinRequest.service';
+import { PlayoffService } from '../services/playoff.service';
+import { PredictionService } from '../services/prediction.service';
+import { QuestionService } from '../services/question.service';
 import { authenticate, AuthRequest } from '../middleware/auth';
 import { sendSuccess } from '../utils/response';
-import { createGroupSchema, updateGroupSchema } from '../validators/group.validator';
+import {
+  createGroupSchema,
+  updateGroupSchema,
+  createScoringRuleSchema,
+  updateScoringRuleSchema,
+  updateMemberRoleSchema,
+  transferOwnershipSchema,
+  createJoinRequestSchema,
+  createInviteLinkSchema,
+  updateInviteLinkSchema,
+} from '../validators/group.validator';
+import { submitBracketSchema } from '../validators/playoff.validator';
+import {
+  createQuestionSchema,
+  updateQuestionSchema,
+  answerQuestionSchema,
+  resolveQuestionSchema,
+} from '../validators/question.validator';
 
 const router = Router();
 const groupService = new GroupService();
+const joinRequestService = new JoinRequestService();
+const inviteLinkService = new InviteLinkService();
+const playoffService = new PlayoffService();
+const predictionService = new PredictionService();
+const questionService = new QuestionService();
 
 /**
  * @swagger
@@ -77,6 +104,12 @@ router.get('/', async (req, res, next) => {
  *               visibility:
  *                 type: string
  *                 enum: [private, public]
+ *               joinMode:
+ *                 type: string
+ *                 enum: [open, invite_code, request]
+ *                 description: Defaults to open for public groups and invite_code for private groups
+ *               maxMembers:
+ *                 type: integer
  *     responses:
  *       201:
  *         description: Group created successfully
@@ -91,6 +124,27 @@ router.post('/', authenticate, async (req: AuthRequest, res, next) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/groups/join-requests:
+ *   get:
+ *     summary: Get the join requests of the current user
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of join requests
+ */
+router.get('/join-requests', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const requests = await joinRequestService.getMyJoinRequests(req.user!.userId);
+    sendSuccess(res, requests, 'Join requests retrieved successfully');
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * @swagger
  * /api/groups/{id}:
@@ -193,6 +247,7 @@ router.delete('/:id', authenticate, async (req: AuthRequest, res, next) => {
  *   post:
  *     summary: Join a group
  *     tags: [Groups]
+ *     description: Open groups can be joined directly. Other groups need the code of a working invite link, or a join request when they use the request mode.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -258,37 +313,30 @@ router.post('/:id/leave', authenticate, async (req: AuthRequest, res, next) => {
 
 /**
  * @swagger
- * /api/groups/{id}/members:
+ * /api/groups/{id}/invite-links:
  *   get:
- *     summary: Get group members
+ *     summary: Get the invite links of a group
  *     tags: [Groups]
+ *     description: Owner and admins see every link with its usage, other members only the links that still work
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
  *         required: true
  *         schema:
  *           type: integer
- *       - in: query
- *         name: page
- *         schema:
- *           type: integer
- *       - in: query
- *         name: limit
- *         schema:
- *           type: integer
  *     responses:
  *       200:
- *         description: List of members
+ *         description: List of invite links
  */
-router.get('/:id/members', async (req, res, next) => {
+router.get('/:id/invite-links', authenticate, async (req: AuthRequest, res, next) => {
   try {
-    const { page, limit } = req.query;
-    const result = await groupService.getMembers(
+    const links = await inviteLinkService.getInviteLinks(
       parseInt(req.params.id),
-      page ? parseInt(page as string) : undefined,
-      limit ? parseInt(limit as string) : undefined
+      req.user!.userId
     );
-    sendSuccess(res, result.members, 'Members retrieved successfully', 200, result.meta);
+    sendSuccess(res, links, 'Invite links retrieved successfully');
   } catch (error) {
     next(error);
   }
@@ -296,10 +344,11 @@ router.get('/:id/members', async (req, res, next) => {
 
 /**
  * @swagger
- * /api/groups/{id}/members/{userId}:
- *   delete:
- *     summary: Remove a member from group
+ * /api/groups/{id}/invite-links:
+ *   post:
+ *     summary: Create an invite link
  *     tags: [Groups]
+ *     description: Owner and admins only
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -308,23 +357,32 @@ router.get('/:id/members', async (req, res, next) => {
  *         required: true
  *         schema:
  *           type: integer
- *       - in: path
- *         name: userId
- *         required: true
- *         schema:
- *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *               maxUses:
+ *                 type: integer
  *     responses:
- *       200:
- *         description: Member removed
+ *       201:
+ *         description: Invite link created
  */
-router.delete('/:id/members/:userId', authenticate, async (req: AuthRequest, res, next) => {
+router.post('/:id/invite-links', authenticate, async (req: AuthRequest, res, next) => {
   try {
-    const result = await groupService.removeMember(
+    const data = createInviteLinkSchema.parse(req.body);
+    const link = await inviteLinkService.createInviteLink(
       parseInt(req.params.id),
       req.user!.userId,
-      parseInt(req.params.userId)
+      data
     );
-    sendSuccess(res, result);
+    sendSuccess(res, link, 'Invite link created successfully', 201);
   } catch (error) {
     next(error);
   }
@@ -332,37 +390,51 @@ router.delete('/:id/members/:userId', authenticate, async (req: AuthRequest, res
 
 /**
  * @swagger
- * /api/groups/{id}/rankings:
- *   get:
- *     summary: Get group rankings
+ * /api/groups/{id}/invite-links/{linkId}:
+ *   patch:
+ *     summary: Rename an invite link or change its limits
  *     tags: [Groups]
+ *     description: Owner and admins only. Send null to remove the expiry or the max uses.
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
  *         required: true
  *         schema:
  *           type: integer
- *       - in: query
- *         name: page
- *         schema:
- *           type: integer
- *       - in: query
- *         name: limit
+ *       - in: path
+ *         name: linkId
+ *         required: true
  *         schema:
  *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *               maxUses:
+ *                 type: integer
  *     responses:
  *       200:
- *         description: Group rankings
+ *         description: Invite link updated
  */
-router.get('/:id/rankings', async (req, res, next) => {
+router.patch('/:id/invite-links/:linkId', authenticate, async (req: AuthRequest, res, next) => {
   try {
-    const { page, limit } = req.query;
-    const result = await groupService.getRankings(
+    const data = updateInviteLinkSchema.parse(req.body);
+    const link = await inviteLinkService.updateInviteLink(
       parseInt(req.params.id),
-      page ? parseInt(page as string) : undefined,
-      limit ? parseInt(limit as string) : undefined
+      parseInt(req.params.linkId),
+      req.user!.userId,
+      data
     );
-    sendSuccess(res, result.rankings, 'Rankings retrieved successfully', 200, result.meta);
+    sendSuccess(res, link, 'Invite link updated successfully');
   } catch (error) {
     next(error);
   }
@@ -370,10 +442,11 @@ router.get('/:id/rankings', async (req, res, next) => {
 
 /**
  * @swagger
- * /api/groups/{id}/predictions:
- *   get:
- *     summary: Get all predictions in a group
+ * /api/groups/{id}/invite-links/{linkId}/regenerate:
+ *   post:
+ *     summary: Replace the code of an invite link
  *     tags: [Groups]
+ *     description: Owner and admins only. The previous code stops working and a disabled link is enabled again.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -382,28 +455,23 @@ router.get('/:id/rankings', async (req, res, next) => {
  *         required: true
  *         schema:
  *           type: integer
- *       - in: query
- *         name: page
- *         schema:
- *           type: integer
- *       - in: query
- *         name: limit
+ *       - in: path
+ *         name: linkId
+ *         required: true
  *         schema:
  *           type: integer
  *     responses:
  *       200:
- *         description: List of predictions
+ *         description: Invite link regenerated
  */
-router.get('/:id/predictions', authenticate, async (req: AuthRequest, res, next) => {
+router.post('/:id/invite-links/:linkId/regenerate', authenticate, async (req: AuthRequest, res, next) => {
   try {
-    const { page, limit } = req.query;
-    const result = await groupService.getGroupPredictions(
+    const link = await inviteLinkService.regenerateInviteLink(
       parseInt(req.params.id),
-      req.user!.userId,
-      page ? parseInt(page as string) : undefined,
-      limit ? parseInt(limit as string) : undefined
+      parseInt(req.params.linkId),
+      req.user!.userId
     );
-    sendSuccess(res, result.predictions, 'Predictions retrieved successfully', 200, result.meta);
+    sendSuccess(res, link, 'Invite link regenerated successfully');
   } catch (error) {
     next(error);
   }
@@ -411,24 +479,36 @@ router.get('/:id/predictions', authenticate, async (req: AuthRequest, res, next)
 
 /**
  * @swagger
- * /api/groups/{id}/rules:
- *   get:
- *     summary: Get group scoring rules
+ * /api/groups/{id}/invite-links/{linkId}:
+ *   delete:
+ *     summary: Disable an invite link
  *     tags: [Groups]
+ *     description: Owner and admins only. Members who joined through the link stay linked to it.
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
  *         required: true
  *         schema:
  *           type: integer
+ *       - in: path
+ *         name: linkId
+ *         required: true
+ *         schema:
+ *           type: integer
  *     responses:
  *       200:
- *         description: List of scoring rules
+ *         description: Invite link disabled
  */
-router.get('/:id/rules', async (req, res, next) => {
+router.delete('/:id/invite-links/:linkId', authenticate, async (req: AuthRequest, res, next) => {
   try {
-    const rules = await groupService.getScoringRules(parseInt(req.params.id));
-    sendSuccess(res, rules);
+    const result = await inviteLinkService.disableInviteLink(
+      parseInt(req.params.id),
+      parseInt(req.params.linkId),
+      req.user!.userId
+    );
+    sendSuccess(res, result);
   } catch (error) {
     next(error);
   }
@@ -436,9 +516,9 @@ router.get('/:id/rules', async (req, res, next) => {
 
 /**
  * @swagger
- * /api/groups/{id}/rules:
+ * /api/groups/{id}/join-requests:
  *   post:
- *     summary: Create a scoring rule
+ *     summary: Ask to join a group
  *     tags: [Groups]
  *     security:
  *       - bearerAuth: []
@@ -449,31 +529,26 @@ router.get('/:id/rules', async (req, res, next) => {
  *         schema:
  *           type: integer
  *     requestBody:
- *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
- *             required:
- *               - ruleDescription
- *               - points
  *             properties:
- *               ruleDescription:
+ *               message:
  *                 type: string
- *               points:
- *                 type: integer
  *     responses:
  *       201:
- *         description: Scoring rule created
+ *         description: Join request created
  */
-router.post('/:id/rules', authenticate, async (req: AuthRequest, res, next) => {
+router.post('/:id/join-requests', authenticate, async (req: AuthRequest, res, next) => {
   try {
-    const rule = await groupService.createScoringRule(
+    const { message } = createJoinRequestSchema.parse(req.body);
+    const request = await joinRequestService.createJoinRequest(
       parseInt(req.params.id),
       req.user!.userId,
-      req.body
+      message
     );
-    sendSuccess(res, rule, 'Scoring rule created successfully', 201);
+    sendSuccess(res, request, 'Join request created successfully', 201);
   } catch (error) {
     next(error);
   }
@@ -481,10 +556,49 @@ router.post('/:id/rules', authenticate, async (req: AuthRequest, res, next) => {
 
 /**
  * @swagger
- * /api/groups/{id}/rules/{ruleId}:
- *   put:
- *     summary: Update a scoring rule
+ * /api/groups/{id}/join-requests:
+ *   get:
+ *     summary: Get the join requests of a group
+ *     tags: [Groups]
+ *     description: Owner and admins only
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, approved, rejected, cancelled]
+ *           default: pending
+ *     responses:
+ *       200:
+ *         description: List of join requests
+ */
+router.get('/:id/join-requests', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const requests = await joinRequestService.getJoinRequests(
+      parseInt(req.params.id),
+      req.user!.userId,
+      req.query.status as string | undefined
+    );
+    sendSuccess(res, requests, 'Join requests retrieved successfully');
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}/join-requests/{requestId}/approve:
+ *   post:
+ *     summary: Approve a join request
  *     tags: [Groups]
+ *     description: Owner and admins only
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -494,34 +608,22 @@ router.post('/:id/rules', authenticate, async (req: AuthRequest, res, next) => {
  *         schema:
  *           type: integer
  *       - in: path
- *         name: ruleId
+ *         name: requestId
  *         required: true
  *         schema:
  *           type: integer
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               ruleDescription:
- *                 type: string
- *               points:
- *                 type: integer
  *     responses:
  *       200:
- *         description: Scoring rule updated
+ *         description: Join request approved
  */
-router.put('/:id/rules/:ruleId', authenticate, async (req: AuthRequest, res, next) => {
+router.post('/:id/join-requests/:requestId/approve', authenticate, async (req: AuthRequest, res, next) => {
   try {
-    const rule = await groupService.updateScoringRule(
+    const request = await joinRequestService.approveJoinRequest(
       parseInt(req.params.id),
-      parseInt(req.params.ruleId),
-      req.user!.userId,
-      req.body
+      parseInt(req.params.requestId),
+      req.user!.userId
     );
-    sendSuccess(res, rule, 'Scoring rule updated successfully');
+    sendSuccess(res, request, 'Join request approved successfully');
   } catch (error) {
     next(error);
   }
@@ -529,9 +631,46 @@ router.put('/:id/rules/:ruleId', authenticate, async (req: AuthRequest, res, nex
 
 /**
  * @swagger
- * /api/groups/{id}/rules/{ruleId}:
+ * /api/groups/{id}/join-requests/{requestId}/reject:
+ *   post:
+ *     summary: Reject a join request
+ *     tags: [Groups]
+ *     description: Owner and admins only
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Join request rejected
+ */
+router.post('/:id/join-requests/:requestId/reject', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const request = await joinRequestService.rejectJoinRequest(
+      parseInt(req.params.id),
+      parseInt(req.params.requestId),
+      req.user!.userId
+    );
+    sendSuccess(res, request, 'Join request rejected successfully');
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}/join-requests/{requestId}:
  *   delete:
- *     summary: Delete a scoring rule
+ *     summary: Cancel your own join request
  *     tags: [Groups]
  *     security:
  *       - bearerAuth: []
@@ -542,19 +681,19 @@ router.put('/:id/rules/:ruleId', authenticate, async (req: AuthRequest, res, nex
  *         schema:
  *           type: integer
  *       - in: path
- *         name: ruleId
+ *         name: requestId
  *         required: true
  *         schema:
  *           type: integer
  *     responses:
  *       200:
- *         description: Scoring rule deleted
+ *         description: Join request cancelled
  */
-router.delete('/:id/rules/:ruleId', authenticate, async (req: AuthRequest, res, next) => {
+router.delete('/:id/join-requests/:requestId', authenticate, async (req: AuthRequest, res, next) => {
   try {
-    const result = await groupService.deleteScoringRule(
+    const result = await joinRequestService.cancelJoinRequest(
       parseInt(req.params.id),
-      parseInt(req.params.ruleId),
+      parseInt(req.params.requestId),
       req.user!.userId
     );
     sendSuccess(res, result);
@@ -563,4 +702,874 @@ router.delete('/:id/rules/:ruleId', authenticate, async (req: AuthRequest, res,
   }
 });
 
+/**
+ * @swagger
+ * /api/groups/{id}/members:
+ *   get:
+ *     summary: Get group members
+ *     tags: [Groups]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: List of members
+ */
+router.get('/:id/members', async (req, res, next) => {
+  try {
+    const { page, limit } = req.query;
+    const result = await groupService.getMembers(
+      parseInt(req.params.id),
+      page ? parseInt(page as string) : undefined,
+      limit ? parseInt(limit as string) : undefined
+    );
+    sendSuccess(res, result.members, 'Members retrieved successfully', 200, result.meta);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}/members/{userId}:
+ *   delete:
+ *     summary: Remove a member from group
+ *     tags: [Groups]
+ *     description: The removed member is banned from joining again until unbanned
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Member removed
+ */
+router.delete('/:id/members/:userId', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const result = await groupService.removeMember(
+      parseInt(req.params.id),
+      req.user!.userId,
+      parseInt(req.params.userId)
+    );
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}/bans:
+ *   get:
+ *     summary: Get the users banned from a group
+ *     tags: [Groups]
+ *     description: Owner and admins only
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: List of bans
+ */
+router.get('/:id/bans', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const bans = await groupService.getBans(
+      parseInt(req.params.id),
+      req.user!.userId
+    );
+    sendSuccess(res, bans, 'Bans retrieved successfully');
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}/bans/{userId}:
+ *   delete:
+ *     summary: Unban a user from a group
+ *     tags: [Groups]
+ *     description: Owner and admins only
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: User unbanned
+ */
+router.delete('/:id/bans/:userId', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const result = await groupService.unbanUser(
+      parseInt(req.params.id),
+      req.user!.userId,
+      parseInt(req.params.userId)
+    );
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}/members/{userId}:
+ *   patch:
+ *     summary: Promote or demote a member
+ *     tags: [Groups]
+ *     description: Owner only
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [admin, member]
+ *     responses:
+ *       200:
+ *         description: Member role updated
+ */
+router.patch('/:id/members/:userId', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const { role } = updateMemberRoleSchema.parse(req.body);
+    const member = await groupService.updateMemberRole(
+      parseInt(req.params.id),
+      req.user!.userId,
+      parseInt(req.params.userId),
+      role
+    );
+    sendSuccess(res, member, 'Member role updated successfully');
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}/transfer-ownership:
+ *   post:
+ *     summary: Transfer group ownership to another member
+ *     tags: [Groups]
+ *     description: Owner only. The previous owner becomes an admin and can then leave the group.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *             properties:
+ *               userId:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Ownership transferred
+ */
+router.post('/:id/transfer-ownership', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const { userId } = transferOwnershipSchema.parse(req.body);
+    const group = await groupService.transferOwnership(
+      parseInt(req.params.id),
+      req.user!.userId,
+      userId
+    );
+    sendSuccess(res, group, 'Ownership transferred successfully');
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}/rankings:
+ *   get:
+ *     summary: Get group rankings
+ *     tags: [Groups]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Group rankings
+ */
+router.get('/:id/rankings', async (req, res, next) => {
+  try {
+    const { page, limit } = req.query;
+    const result = await groupService.getRankings(
+      parseInt(req.params.id),
+      page ? parseInt(page as string) : undefined,
+      limit ? parseInt(limit as string) : undefined
+    );
+    sendSuccess(res, result.rankings, 'Rankings retrieved successfully', 200, result.meta);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}/rankings/rebuild:
+ *   post:
+ *     summary: Rebuild group rankings from the raw predictions
+ *     tags: [Groups]
+ *     description: Rescores every prediction and recomputes member totals, including bracket and question points
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Rankings rebuilt
+ */
+router.post('/:id/rankings/rebuild', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const result = await predictionService.rebuildGroupRankings(
+      parseInt(req.params.id),
+      req.user!.userId
+    );
+    sendSuccess(res, result, 'Rankings rebuilt successfully');
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}/predictions:
+ *   get:
+ *     summary: Get all predictions in a group
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: List of predictions
+ */
+router.get('/:id/predictions', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const { page, limit } = req.query;
+    const result = await groupService.getGroupPredictions(
+      parseInt(req.params.id),
+      req.user!.userId,
+      page ? parseInt(page as string) : undefined,
+      limit ? parseInt(limit as string) : undefined
+    );
+    sendSuccess(res, result.predictions, 'Predictions retrieved successfully', 200, result.meta);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}/rules:
+ *   get:
+ *     summary: Get group scoring rules
+ *     tags: [Groups]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: List of scoring rules
+ */
+router.get('/:id/rules', async (req, res, next) => {
+  try {
+    const rules = await groupService.getScoringRules(parseInt(req.params.id));
+    sendSuccess(res, rules);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}/rules:
+ *   post:
+ *     summary: Create a scoring rule
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - ruleType
+ *               - points
+ *             properties:
+ *               ruleType:
+ *                 type: string
+ *                 enum: [exact_score, correct_winner, correct_draw, goal_difference, team_score, total_goals]
+ *               ruleDescription:
+ *                 type: string
+ *               points:
+ *                 type: integer
+ *               parameters:
+ *                 type: object
+ *                 description: Type specific parameters (exact_score.exclusive, total_goals.tolerance)
+ *     responses:
+ *       201:
+ *         description: Scoring rule created
+ */
+router.post('/:id/rules', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const data = createScoringRuleSchema.parse(req.body);
+    const rule = await groupService.createScoringRule(
+      parseInt(req.params.id),
+      req.user!.userId,
+      data
+    );
+    sendSuccess(res, rule, 'Scoring rule created successfully', 201);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}/rules/{ruleId}:
+ *   put:
+ *     summary: Update a scoring rule
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               ruleType:
+ *                 type: string
+ *                 enum: [exact_score, correct_winner, correct_draw, goal_difference, team_score, total_goals]
+ *               ruleDescription:
+ *                 type: string
+ *               points:
+ *                 type: integer
+ *               parameters:
+ *                 type: object
+ *     responses:
+ *       200:
+ *         description: Scoring rule updated
+ */
+router.put('/:id/rules/:ruleId', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const data = updateScoringRuleSchema.parse(req.body);
+    const rule = await groupService.updateScoringRule(
+      parseInt(req.params.id),
+      parseInt(req.params.ruleId),
+      req.user!.userId,
+      data
+    );
+    sendSuccess(res, rule, 'Scoring rule updated successfully');
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}/rules/{ruleId}:
+ *   delete:
+ *     summary: Delete a scoring rule
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Scoring rule deleted
+ */
+router.delete('/:id/rules/:ruleId', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const result = await groupService.deleteScoringRule(
+      parseInt(req.params.id),
+      parseInt(req.params.ruleId),
+      req.user!.userId
+    );
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}/bracket:
+ *   get:
+ *     summary: Get bracket challenge picks
+ *     tags: [Groups]
+ *     description: Returns your own bracket until the playoffs start, then every member's bracket
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Bracket picks
+ */
+router.get('/:id/bracket', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const result = await playoffService.getBracketPredictions(
+      parseInt(req.params.id),
+      req.user!.userId
+    );
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}/bracket:
+ *   put:
+ *     summary: Submit a full bracket for the group's bracket challenge
+ *     tags: [Groups]
+ *     description: One pick per series, allowed until the first playoff game starts. Replaces any previous bracket.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - picks
+ *             properties:
+ *               picks:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     seriesId:
+ *                       type: integer
+ *                     winnerTeamId:
+ *                       type: integer
+ *                     games:
+ *                       type: integer
+ *     responses:
+ *       200:
+ *         description: Bracket saved
+ */
+router.put('/:id/bracket', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const { picks } = submitBracketSchema.parse(req.body);
+    const result = await playoffService.submitBracket(
+      parseInt(req.params.id),
+      req.user!.userId,
+      picks
+    );
+    sendSuccess(res, result, 'Bracket saved successfully');
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}/questions:
+ *   get:
+ *     summary: Get the group's season-long questions
+ *     tags: [Groups]
+ *     description: Other members' answers are only visible once a question locks
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: List of questions with answers
+ */
+router.get('/:id/questions', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const questions = await questionService.getQuestions(
+      parseInt(req.params.id),
+      req.user!.userId
+    );
+    sendSuccess(res, questions);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}/questions:
+ *   post:
+ *     summary: Create a season-long question
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - type
+ *               - question
+ *               - points
+ *               - locksAt
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [champion, top_scoring_team, last_place, custom]
+ *               question:
+ *                 type: string
+ *               options:
+ *                 type: array
+ *                 description: Choices of a custom question
+ *                 items:
+ *                   type: string
+ *               points:
+ *                 type: integer
+ *               locksAt:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Question created
+ */
+router.post('/:id/questions', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const data = createQuestionSchema.parse(req.body);
+    const question = await questionService.createQuestion(
+      parseInt(req.params.id),
+      req.user!.userId,
+      data
+    );
+    sendSuccess(res, question, 'Question created successfully', 201);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}/questions/{questionId}:
+ *   put:
+ *     summary: Update a season-long question
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: questionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Question updated
+ */
+router.put('/:id/questions/:questionId', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const data = updateQuestionSchema.parse(req.body);
+    const question = await questionService.updateQuestion(
+      parseInt(req.params.id),
+      parseInt(req.params.questionId),
+      req.user!.userId,
+      data
+    );
+    sendSuccess(res, question, 'Question updated successfully');
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}/questions/{questionId}:
+ *   delete:
+ *     summary: Delete a season-long question
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: questionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Question deleted
+ */
+router.delete('/:id/questions/:questionId', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const result = await questionService.deleteQuestion(
+      parseInt(req.params.id),
+      parseInt(req.params.questionId),
+      req.user!.userId
+    );
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}/questions/{questionId}/answer:
+ *   put:
+ *     summary: Answer a season-long question
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: questionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - answer
+ *             properties:
+ *               answer:
+ *                 description: A team id, or one of the options of a custom question
+ *                 oneOf:
+ *                   - type: integer
+ *                   - type: string
+ *     responses:
+ *       200:
+ *         description: Answer saved
+ */
+router.put('/:id/questions/:questionId/answer', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const { answer } = answerQuestionSchema.parse(req.body);
+    const result = await questionService.answerQuestion(
+      parseInt(req.params.id),
+      parseInt(req.params.questionId),
+      req.user!.userId,
+      answer
+    );
+    sendSuccess(res, result, 'Answer saved successfully');
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/groups/{id}/questions/{questionId}/resolve:
+ *   post:
+ *     summary: Resolve a season-long question and award points
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: questionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               correctAnswer:
+ *                 description: Omit to resolve a team question from the competition standings
+ *                 oneOf:
+ *                   - type: integer
+ *                   - type: string
+ *     responses:
+ *       200:
+ *         description: Question resolved
+ */
+router.post('/:id/questions/:questionId/resolve', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const { correctAnswer } = resolveQuestionSchema.parse(req.body ?? {});
+    const question = await questionService.resolveQuestion(
+      parseInt(req.params.id),
+      parseInt(req.params.questionId),
+      req.user!.userId,
+      correctAnswer
+    );
+    sendSuccess(res, question, 'Question resolved successfully');
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -1,7 +1,9 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { InvitationService } from '../services/invitation.service';
 import { authenticate, AuthRequest } from '../middleware/auth';
+import { parseEmailCsv } from '../utils/csv';
 import { sendSuccess } from '../utils/response';
+import { bulkInvitationSchema, createInvitationSchema } from '../validators/invitation.validator';
 
 const router = Router();
 const invitationService = new InvitationService();
@@ -29,15 +31,20 @@ const invitationService = new InvitationService();
  *                 format: email
  *               groupId:
  *                 type: integer
+ *               language:
+ *                 type: string
+ *                 enum: [en, fr]
+ *                 description: Language of the email when the invitee has no account yet
  *     responses:
  *       201:
  *         description: Invitation sent successfully
  */
 router.post('/', authenticate, async (req: AuthRequest, res, next) => {
   try {
+    const data = createInvitationSchema.parse(req.body);
     const invitation = await invitationService.createInvitation(
       req.user!.userId,
-      req.body
+      data
     );
     sendSuccess(res, invitation, 'Invitation sent successfully', 201);
   } catch (error) {
@@ -45,6 +52,77 @@ router.post('/', authenticate, async (req: AuthRequest, res, next) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/invitations/bulk:
+ *   post:
+ *     summary: Invite a list of email addresses to a group
+ *     tags: [Invitations]
+ *     description: |
+ *       Send a JSON body with `emails` and/or `csv`, or upload the CSV file itself
+ *       with `Content-Type: text/csv` and `groupId` in the query string.
+ *       The CSV addresses are read from its `email` column, or from the first column when there is no header.
+ *       Every row is reported as created, skipped or invalid, with its position in `emails`
+ *       or its line in the CSV file. Nothing is created when an invitation fails.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: groupId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: language
+ *         schema:
+ *           type: string
+ *           enum: [en, fr]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - groupId
+ *             properties:
+ *               groupId:
+ *                 type: integer
+ *               language:
+ *                 type: string
+ *                 enum: [en, fr]
+ *               emails:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               csv:
+ *                 type: string
+ *         text/csv:
+ *           schema:
+ *             type: string
+ *     responses:
+ *       200:
+ *         description: Per-row report of the invitations
+ */
+router.post('/bulk', authenticate, express.text({ type: 'text/csv', limit: '1mb' }), async (req: AuthRequest, res, next) => {
+  try {
+    const body = req.is('text/csv')
+      ? { groupId: req.query.groupId, language: req.query.language, csv: req.body }
+      : req.body;
+    const data = bulkInvitationSchema.parse(body);
+    const report = await invitationService.createBulkInvitations(req.user!.userId, {
+      groupId: data.groupId,
+      language: data.language,
+      addresses: [
+        ...data.emails.map((email, index) => ({ row: index + 1, source: 'emails' as const, email })),
+        ...(data.csv ? parseEmailCsv(data.csv) : []).map(({ line, email }) => ({ row: line, source: 'csv' as const, email })),
+      ],
+    });
+    sendSuccess(res, report, `${report.created} invitations sent`);
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * @swagger
  * /api/invitations/received:
@@ -152,6 +230,68 @@ router.post('/:token/reject', authenticate, async (req: AuthRequest, res, next)
   }
 });
 
+/**
+ * @swagger
+ * /api/invitations/{id}/deliveries:
+ *   get:
+ *     summary: Get the delivery status of an invitation's emails
+ *     tags: [Invitations]
+ *     description: Inviter and group owner/admins only
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: List of email deliveries, newest first
+ */
+router.get('/:id/deliveries', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const deliveries = await invitationService.getDeliveries(
+      parseInt(req.params.id),
+      req.user!.userId
+    );
+    sendSuccess(res, deliveries);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/invitations/{id}/resend:
+ *   post:
+ *     summary: Send the invitation email again
+ *     tags: [Invitations]
+ *     description: Inviter and group owner/admins only
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       202:
+ *         description: Invitation email queued
+ */
+router.post('/:id/resend', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const delivery = await invitationService.resendInvitation(
+      parseInt(req.params.id),
+      req.user!.userId
+    );
+    sendSuccess(res, delivery, 'Invitation email queued', 202);
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * @swagger
  * /api/invitations/{id}:
@@ -0,0 +1,80 @@
+import { Router } from 'express';
+import { config } from '../config/env';
+import { jobService } from '../services/job.service';
+import { authenticate, authorize } from '../middleware/auth';
+import { sendError, sendSuccess } from '../utils/response';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/jobs:
+ *   get:
+ *     summary: List background jobs
+ *     tags: [Jobs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, running, completed, failed]
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: List of jobs
+ */
+router.get('/', authenticate, authorize('admin'), async (req, res, next) => {
+  try {
+    const { status, type, page, limit } = req.query;
+    const result = await jobService.getJobs({
+      status: status as string,
+      type: type as string,
+      page: page ? parseInt(page as string) : undefined,
+      limit: limit ? parseInt(limit as string) : undefined,
+    });
+    sendSuccess(res, result.jobs, 'Jobs retrieved successfully', 200, result.meta);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/jobs/run:
+ *   get:
+ *     summary: Run the due background jobs
+ *     tags: [Jobs]
+ *     description: For deployments without a long-running process, called by a cron with the CRON_SECRET as bearer token
+ *     responses:
+ *       200:
+ *         description: Number of jobs run
+ */
+router.get('/run', async (req, res, next) => {
+  try {
+    if (!config.jobs.cronSecret || req.headers.authorization !== `Bearer ${config.jobs.cronSecret}`) {
+      sendError(res, 'UNAUTHORIZED', 'Invalid cron secret', 401);
+      return;
+    }
+
+    await jobService.schedulePeriodicJobs();
+    const processed = await jobService.runDue();
+    sendSuccess(res, { processed });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,13 +1,16 @@
 import { Router } from 'express';
 import prisma from '../config/database';
-import { authenticate, AuthRequest } from '../middleware/auth';
+import { authenticate, authorize, AuthRequest } from '../middleware/auth';
 import { sendSuccess } from '../utils/response';
 import { PredictionService } from '../services/prediction.service';
 import { MatchService } from '../services/match.service';
+import { MatchEventService } from '../services/matchEvent.service';
+import { createMatchEventSchema, updateMatchEventSchema, updateScoreSchema } from '../validators/match.validator';
 
 const router = Router();
 const predictionService = new PredictionService();
 const matchService = new MatchService();
+const matchEventService = new MatchEventService();
 
 /**
  * @swagger
@@ -214,7 +217,7 @@ router.get('/live', async (req, res, next) => {
  *           type: integer
  *     responses:
  *       200:
- *         description: Match details
+ *         description: Match details, with the timeline of its events and power plays
  */
 router.get('/:id', async (req, res, next) => {
   try {
@@ -238,7 +241,186 @@ router.get('/:id', async (req, res, next) => {
       return;
     }
 
-    sendSuccess(res, match);
+    const timeline = await matchEventService.getTimeline(match);
+
+    sendSuccess(res, { ...match, timeline });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/matches/{id}/events:
+ *   get:
+ *     summary: Get the timeline of a match
+ *     tags: [Matches]
+ *     description: |
+ *       Goals, penalties and period changes in game order, and the power plays drawn by the penalties.
+ *       Power play times are in seconds since the start of the game.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Match events and power plays
+ *       404:
+ *         description: Match not found
+ */
+router.get('/:id/events', async (req, res, next) => {
+  try {
+    const timeline = await matchEventService.getMatchTimeline(parseInt(req.params.id));
+    sendSuccess(res, timeline);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/matches/{id}/events:
+ *   post:
+ *     summary: Record a goal, penalty or period change
+ *     tags: [Matches]
+ *     description: |
+ *       Only for live or finished matches. Once a match has goals, its score is derived from them:
+ *       periods 1-3 are regulation, 4 is overtime and 5 is the shootout, where the team scoring more
+ *       attempts gets a single goal. Every event is broadcast to the live streams as `match-event`.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - type
+ *               - period
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [goal, penalty, period_start, period_end]
+ *               period:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *               periodTime:
+ *                 type: integer
+ *                 description: Seconds elapsed in the period
+ *                 default: 0
+ *               teamId:
+ *                 type: integer
+ *                 description: Scoring team for a goal, penalized team for a penalty
+ *               player:
+ *                 type: string
+ *               assists:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               strength:
+ *                 type: string
+ *                 enum: [even, power_play, short_handed, empty_net, penalty_shot]
+ *               penaltyMinutes:
+ *                 type: integer
+ *               description:
+ *                 type: string
+ *                 example: Tripping
+ *     responses:
+ *       201:
+ *         description: Event recorded
+ *       400:
+ *         description: Match not live or finished, or event incomplete
+ */
+router.post('/:id/events', authenticate, authorize('editor', 'admin'), async (req: AuthRequest, res, next) => {
+  try {
+    const data = createMatchEventSchema.parse(req.body);
+    const event = await matchEventService.createEvent(parseInt(req.params.id), data, req.user!.userId);
+    sendSuccess(res, event, 'Match event recorded successfully', 201);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/matches/{id}/events/{eventId}:
+ *   patch:
+ *     summary: Correct a match event
+ *     tags: [Matches]
+ *     description: Takes the same fields as recording an event. Broadcast as `match-event-updated`.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Event corrected
+ *       404:
+ *         description: Match event not found
+ */
+router.patch('/:id/events/:eventId', authenticate, authorize('editor', 'admin'), async (req, res, next) => {
+  try {
+    const data = updateMatchEventSchema.parse(req.body);
+    const event = await matchEventService.updateEvent(
+      parseInt(req.params.id),
+      parseInt(req.params.eventId),
+      data
+    );
+    sendSuccess(res, event, 'Match event updated successfully');
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/matches/{id}/events/{eventId}:
+ *   delete:
+ *     summary: Remove a match event recorded by mistake
+ *     tags: [Matches]
+ *     description: Broadcast as `match-event-deleted`.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: eventId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Event removed
+ *       404:
+ *         description: Match event not found
+ */
+router.delete('/:id/events/:eventId', authenticate, authorize('editor', 'admin'), async (req, res, next) => {
+  try {
+    const result = await matchEventService.deleteEvent(parseInt(req.params.id), parseInt(req.params.eventId));
+    sendSuccess(res, result);
   } catch (error) {
     next(error);
   }
@@ -281,7 +463,7 @@ router.get('/:matchId/groups/:groupId/predictions', authenticate, async (req: Au
   }
 });
 
-router.post('/', authenticate, async (req, res, next) => {
+router.post('/', authenticate, authorize('editor', 'admin'), async (req, res, next) => {
   try {
     const match = await matchService.createMatch(req.body);
     sendSuccess(res, match, 'Match created successfully', 201);
@@ -290,7 +472,7 @@ router.post('/', authenticate, async (req, res, next) => {
   }
 });
 
-router.put('/:id', authenticate, async (req, res, next) => {
+router.put('/:id', authenticate, authorize('editor', 'admin'), async (req, res, next) => {
   try {
     const match = await matchService.updateMatch(parseInt(req.params.id), req.body);
     sendSuccess(res, match, 'Match updated successfully');
@@ -299,7 +481,7 @@ router.put('/:id', authenticate, async (req, res, next) => {
   }
 });
 
-router.delete('/:id', authenticate, async (req, res, next) => {
+router.delete('/:id', authenticate, authorize('editor', 'admin'), async (req, res, next) => {
   try {
     const result = await matchService.deleteMatch(parseInt(req.params.id));
     sendSuccess(res, result);
@@ -308,15 +490,61 @@ router.delete('/:id', authenticate, async (req, res, next) => {
   }
 });
 
-router.patch('/:id/score', authenticate, async (req, res, next) => {
+/**
+ * @swagger
+ * /api/matches/{id}/score:
+ *   patch:
+ *     summary: Set the score of a match
+ *     tags: [Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - homeScore
+ *               - awayScore
+ *             properties:
+ *               homeScore:
+ *                 type: integer
+ *                 description: Final score, including the overtime or shootout winning goal
+ *               awayScore:
+ *                 type: integer
+ *               resultType:
+ *                 type: string
+ *                 enum: [regulation, overtime, shootout]
+ *                 default: regulation
+ *               regulationHomeScore:
+ *                 type: integer
+ *                 description: Derived from the final score when omitted
+ *               regulationAwayScore:
+ *                 type: integer
+ *               status:
+ *                 type: string
+ *                 enum: [live, finished]
+ *                 default: finished
+ *     responses:
+ *       200:
+ *         description: Score updated, points are calculated in the background
+ */
+router.patch('/:id/score', authenticate, authorize('editor', 'admin'), async (req, res, next) => {
   try {
-    const { homeScore, awayScore } = req.body;
+    const { status, ...score } = updateScoreSchema.parse(req.body);
     const match = await matchService.updateScore(
       parseInt(req.params.id),
-      homeScore,
-      awayScore
+      score,
+      status
     );
-    sendSuccess(res, match, 'Score updated and points calculated');
+    sendSuccess(res, match, 'Score updated, points are being calculated');
   } catch (error) {
     next(error);
   }
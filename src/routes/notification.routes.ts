@@ -0,0 +1,266 @@
+import { Router } from 'express';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { notificationService } from '../services/notification.service';
+import { sendSuccess } from '../utils/response';
+import {
+  dismissNotificationsSchema,
+  markNotificationsReadSchema,
+  updateNotificationPreferencesSchema,
+} from '../validators/notification.validator';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/notifications:
+ *   get:
+ *     summary: Get the notifications of the current user, newest first
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: unread
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Notifications, with the unread count in meta
+ */
+router.get('/', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const { unread, page, limit } = req.query;
+    const pageNumber = page ? parseInt(page as string) : 1;
+    const limitNumber = limit ? Math.min(parseInt(limit as string), 100) : 20;
+
+    const { notifications, total, unreadCount } = await notificationService.getNotifications(req.user!.userId, {
+      page: pageNumber,
+      limit: limitNumber,
+      unread: unread === 'true',
+    });
+
+    const meta = {
+      page: pageNumber,
+      limit: limitNumber,
+      total,
+      totalPages: Math.ceil(total / limitNumber),
+      unreadCount,
+    };
+
+    sendSuccess(res, notifications, 'Notifications retrieved successfully', 200, meta);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/notifications/unread-count:
+ *   get:
+ *     summary: Get the number of unread notifications
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Unread count
+ */
+router.get('/unread-count', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const unreadCount = await notificationService.getUnreadCount(req.user!.userId);
+    sendSuccess(res, { unreadCount });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/notifications/read:
+ *   post:
+ *     summary: Mark notifications as read
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               ids:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                 description: Every unread notification when omitted
+ *     responses:
+ *       200:
+ *         description: Number of notifications marked and the new unread count
+ */
+router.post('/read', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const { ids } = markNotificationsReadSchema.parse(req.body ?? {});
+    const result = await notificationService.markRead(req.user!.userId, ids);
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/notifications/dismiss:
+ *   post:
+ *     summary: Remove notifications from the inbox
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               ids:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *               filter:
+ *                 type: string
+ *                 enum: [read, all]
+ *                 description: Dismiss every read notification, or all of them, instead of a list of ids
+ *     responses:
+ *       200:
+ *         description: Number of notifications dismissed and the new unread count
+ */
+router.post('/dismiss', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const data = dismissNotificationsSchema.parse(req.body);
+    const result = await notificationService.dismiss(req.user!.userId, data);
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/notifications/preferences:
+ *   get:
+ *     summary: Get which notification types the current user receives
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Every notification type with its enabled flag
+ */
+router.get('/preferences', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const preferences = await notificationService.getPreferences(req.user!.userId);
+    sendSuccess(res, preferences);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/notifications/preferences:
+ *   put:
+ *     summary: Turn notification types on or off
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: Notification types mapped to whether they are enabled, types left out are unchanged
+ *             example:
+ *               points_earned: false
+ *               rank_changed: true
+ *     responses:
+ *       200:
+ *         description: Updated preferences
+ */
+router.put('/preferences', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const data = updateNotificationPreferencesSchema.parse(req.body);
+    const preferences = await notificationService.updatePreferences(req.user!.userId, data);
+    sendSuccess(res, preferences, 'Notification preferences updated successfully');
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/notifications/{id}/read:
+ *   patch:
+ *     summary: Mark a notification as read
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Notification marked as read
+ *       404:
+ *         description: Notification not found
+ */
+router.patch('/:id/read', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const result = await notificationService.markOneRead(req.user!.userId, parseInt(req.params.id));
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/notifications/{id}:
+ *   delete:
+ *     summary: Dismiss a notification
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Notification dismissed
+ *       404:
+ *         description: Notification not found
+ */
+router.delete('/:id', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const result = await notificationService.dismissOne(req.user!.userId, parseInt(req.params.id));
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -82,6 +82,12 @@ router.get('/', authenticate, async (req: AuthRequest, res, next) => {
  *                 type: integer
  *               awayScorePrediction:
  *                 type: integer
+ *               resultTypePrediction:
+ *                 type: string
+ *                 enum: [regulation, overtime, shootout]
+ *               isJoker:
+ *                 type: boolean
+ *                 description: Multiply the points of this prediction, within the group's joker allowance
  *     responses:
  *       201:
  *         description: Prediction created
@@ -154,6 +160,12 @@ router.get('/:id', authenticate, async (req: AuthRequest, res, next) => {
  *                 type: integer
  *               awayScorePrediction:
  *                 type: integer
+ *               resultTypePrediction:
+ *                 type: string
+ *                 enum: [regulation, overtime, shootout]
+ *               isJoker:
+ *                 type: boolean
+ *                 description: Multiply the points of this prediction, within the group's joker allowance
  *     responses:
  *       200:
  *         description: Prediction updated
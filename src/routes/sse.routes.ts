@@ -1,8 +1,26 @@
-import { Router } from 'express';
+import { Request, Router } from 'express';
 import { randomUUID } from 'crypto';
-import { sseService } from '../services/sse.service';
+import { authenticateStream, AuthRequest } from '../middleware/auth';
+import { GroupService } from '../services/group.service';
+import {
+  ALL_MATCHES_TOPIC,
+  competitionTopic,
+  groupTopic,
+  matchTopic,
+  sseService,
+  userTopic,
+} from '../services/sse.service';
 
 const router = Router();
+const groupService = new GroupService();
+
+/**
+ * Browsers send Last-Event-ID when reconnecting, polyfills often use a query parameter instead
+ */
+const getLastEventId = (req: Request): number | undefined => {
+  const id = parseInt((req.headers['last-event-id'] ?? req.query.lastEventId) as string);
+  return isNaN(id) ? undefined : id;
+};
 
 /**
  * @swagger
@@ -10,8 +28,15 @@ const router = Router();
  *   get:
  *     summary: Subscribe to live score updates via Server-Sent Events
  *     tags: [SSE]
- *     description: Establishes an SSE connection to receive real-time score updates
+ *     description: |
+ *       Establishes an SSE connection to receive real-time score updates. Every event has an id;
+ *       reconnecting with the `Last-Event-ID` header (or the `lastEventId` query parameter) replays the
+ *       recent events that were missed. A `resync` event means some were no longer buffered.
  *     parameters:
+ *       - in: header
+ *         name: Last-Event-ID
+ *         schema:
+ *           type: integer
  *       - in: query
  *         name: matchIds
  *         schema:
@@ -33,11 +58,13 @@ const router = Router();
  *
  *               score-update:
  *                 value: |
+ *                   id: 1761559500001
  *                   event: score-update
  *                   data: {"matchId":1,"homeScore":2,"awayScore":1,"homeTeam":"Team A","awayTeam":"Team B","timestamp":"2025-10-27T10:05:00.000Z"}
  *
  *               match-status:
  *                 value: |
+ *                   id: 1761559500002
  *                   event: match-status
  *                   data: {"matchId":1,"status":"live","timestamp":"2025-10-27T10:00:00.000Z"}
  *
@@ -55,11 +82,121 @@ router.get('/live-scores', (req, res) => {
     matchIds = matchIdsParam.split(',').map(id => parseInt(id.trim())).filter(id => !isNaN(id));
   }
 
-  sseService.addClient(clientId, res, matchIds);
+  sseService.addClient(clientId, res, matchIds ? matchIds.map(matchTopic) : [ALL_MATCHES_TOPIC], {
+    lastEventId: getLastEventId(req),
+  });
 
   console.log(`New SSE client connected: ${clientId}, subscribed to matches: ${matchIds ? matchIds.join(',') : 'all'}`);
 });
 
+/**
+ * @swagger
+ * /api/sse/groups/{id}:
+ *   get:
+ *     summary: Subscribe to the live events of a group via Server-Sent Events
+ *     tags: [SSE]
+ *     description: |
+ *       Members only. Streams the score updates and status changes of the group competition's matches,
+ *       plus group events: `rankings-update` after a match is scored, `predictions-revealed` when a match locks,
+ *       `member-joined` and `member-left`. Browsers using EventSource can pass the access token
+ *       in the `access_token` query parameter instead of the Authorization header.
+ *       Missed events are replayed on reconnection with `Last-Event-ID`, as on `/api/sse/live-scores`.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: access_token
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: SSE connection established
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *             examples:
+ *               rankings-update:
+ *                 value: |
+ *                   event: rankings-update
+ *                   data: {"groupId":1,"matchId":12,"rankings":[{"groupId":1,"totalPoints":18,"rank":1,"previousRank":2,"user":{"id":3,"username":"jdoe"}}],"timestamp":"2025-10-27T12:00:00.000Z"}
+ *
+ *               member-joined:
+ *                 value: |
+ *                   event: member-joined
+ *                   data: {"groupId":1,"user":{"id":7,"username":"newbie"},"timestamp":"2025-10-27T12:00:00.000Z"}
+ *       401:
+ *         description: Missing or invalid token
+ *       403:
+ *         description: Not a member of this group
+ */
+router.get('/groups/:id', authenticateStream, async (req: AuthRequest, res, next) => {
+  try {
+    const group = await groupService.checkStreamAccess(parseInt(req.params.id), req.user!.userId);
+    const clientId = randomUUID();
+
+    sseService.addClient(clientId, res, [groupTopic(group.id), competitionTopic(group.competitionId)], {
+      userId: req.user!.userId,
+      message: `Connected to group ${group.name}`,
+      lastEventId: getLastEventId(req),
+      expiresAt: req.user!.exp,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * @swagger
+ * /api/sse/notifications:
+ *   get:
+ *     summary: Receive the current user's notifications via Server-Sent Events
+ *     tags: [SSE]
+ *     description: |
+ *       Streams a `notification` event for every new notification of the user, and a
+ *       `notifications-updated` event with the unread count after notifications are read or dismissed
+ *       on any device. Accepts the token in the `access_token` query parameter, and replays missed
+ *       events with `Last-Event-ID`, like the group streams. The stream ends with a `token-expired`
+ *       event when the access token expires.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: access_token
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: SSE connection established
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *             examples:
+ *               notification:
+ *                 value: |
+ *                   id: 1761559500001
+ *                   event: notification
+ *                   data: {"notification":{"id":42,"userId":3,"type":"rank_changed","message":"You moved up to #2 in Office Pool","data":{"matchId":12,"groupId":1,"rank":2,"previousRank":4},"readAt":null,"createdAt":"2025-10-27T12:00:00.000Z"},"timestamp":"2025-10-27T12:00:00.000Z"}
+ *       401:
+ *         description: Missing or invalid token
+ */
+router.get('/notifications', authenticateStream, (req: AuthRequest, res) => {
+  const clientId = randomUUID();
+
+  sseService.addClient(clientId, res, [userTopic(req.user!.userId)], {
+    userId: req.user!.userId,
+    message: 'Connected to notifications',
+    lastEventId: getLastEventId(req),
+    expiresAt: req.user!.exp,
+  });
+});
+
 /**
  * @swagger
  * /api/sse/status:
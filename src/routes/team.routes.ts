@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { TeamService } from '../services/team.service';
-import { authenticate } from '../middleware/auth';
+import { authenticate, authorize } from '../middleware/auth';
 import { sendSuccess } from '../utils/response';
 
 const router = Router();
@@ -73,7 +73,7 @@ router.get('/', async (req, res, next) => {
  *       201:
  *         description: Team created successfully
  */
-router.post('/', authenticate, async (req, res, next) => {
+router.post('/', authenticate, authorize('editor', 'admin'), async (req, res, next) => {
   try {
     const team = await teamService.createTeam(req.body);
     sendSuccess(res, team, 'Team created', 201);
@@ -138,7 +138,7 @@ router.get('/:id', async (req, res, next) => {
  *       200:
  *         description: Team updated successfully
  */
-router.put('/:id', authenticate, async (req, res, next) => {
+router.put('/:id', authenticate, authorize('editor', 'admin'), async (req, res, next) => {
   try {
     const team = await teamService.updateTeam(parseInt(req.params.id), req.body);
     sendSuccess(res, team);
@@ -165,7 +165,7 @@ router.put('/:id', authenticate, async (req, res, next) => {
  *       200:
  *         description: Team deleted successfully
  */
-router.delete('/:id', authenticate, async (req, res, next) => {
+router.delete('/:id', authenticate, authorize('editor', 'admin'), async (req, res, next) => {
   try {
     const result = await teamService.deleteTeam(parseInt(req.params.id));
     sendSuccess(res, result);
@@ -1,7 +1,8 @@
 import { Router } from 'express';
 import { UserService } from '../services/user.service';
-import { authenticate, AuthRequest } from '../middleware/auth';
+import { authenticate, authorize, AuthRequest } from '../middleware/auth';
 import { sendSuccess } from '../utils/response';
+import { updateRoleSchema } from '../validators/user.validator';
 
 const router = Router();
 const userService = new UserService();
@@ -163,4 +164,47 @@ router.get('/:id/predictions', async (req, res, next) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/users/{id}/role:
+ *   patch:
+ *     summary: Change a user's platform role
+ *     tags: [Users]
+ *     description: Admin only. Editors manage competitions, teams, matches and scores.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [user, editor, admin]
+ *     responses:
+ *       200:
+ *         description: Role updated
+ *       403:
+ *         description: Not an admin
+ */
+router.patch('/:id/role', authenticate, authorize('admin'), async (req, res, next) => {
+  try {
+    const { role } = updateRoleSchema.parse(req.body);
+    const user = await userService.updateRole(parseInt(req.params.id), role);
+    sendSuccess(res, user, 'Role updated successfully');
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
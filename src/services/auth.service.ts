@@ -1,7 +1,13 @@
+import { randomUUID } from 'crypto';
 import prisma from '../config/database';
-import { hashPassword, comparePassword } from '../utils/password';
-import { generateToken, generateRefreshToken } from '../utils/jwt';
+import { hashPassword, comparePassword, hashToken, generateSecureToken } from '../utils/password';
+import { generateToken, generateRefreshToken, verifyRefreshToken, PlatformRole } from '../utils/jwt';
+import { emailVerificationMail, passwordResetMail } from '../utils/mailTemplates';
 import { AppError } from '../middleware/errorHandler';
+import { mailService } from './mail.service';
+
+const PASSWORD_RESET_TTL = 60 * 60 * 1000;
+const EMAIL_VERIFICATION_TTL = 24 * 60 * 60 * 1000;
 
 export class AuthService {
   async register(data: {
@@ -40,23 +46,19 @@ export class AuthService {
         email: true,
         firstName: true,
         lastName: true,
+        role: true,
+        emailVerifiedAt: true,
+        pendingEmail: true,
+        language: true,
         createdAt: true,
       },
     });
 
-    const token = generateToken({
-      userId: user.id,
-      email: user.email,
-      username: user.username,
-    });
+    await this.sendEmailVerification(user.id, user.username, user.email);
 
-    const refreshToken = generateRefreshToken({
-      userId: user.id,
-      email: user.email,
-      username: user.username,
-    });
+    const tokens = await this.createSession(user);
 
-    return { user, token, refreshToken };
+    return { user, ...tokens };
   }
 
   async login(email: string, password: string) {
@@ -74,21 +76,11 @@ export class AuthService {
       throw new AppError(401, 'UNAUTHORIZED', 'Invalid credentials');
     }
 
-    const token = generateToken({
-      userId: user.id,
-      email: user.email,
-      username: user.username,
-    });
-
-    const refreshToken = generateRefreshToken({
-      userId: user.id,
-      email: user.email,
-      username: user.username,
-    });
+    const tokens = await this.createSession(user);
 
     const { passwordHash, ...userWithoutPassword } = user;
 
-    return { user: userWithoutPassword, token, refreshToken };
+    return { user: userWithoutPassword, ...tokens };
   }
 
   async getProfile(userId: number) {
@@ -100,6 +92,10 @@ export class AuthService {
         email: true,
         firstName: true,
         lastName: true,
+        role: true,
+        emailVerifiedAt: true,
+        pendingEmail: true,
+        language: true,
         createdAt: true,
       },
     });
@@ -113,28 +109,59 @@ export class AuthService {
 
   async updateProfile(
     userId: number,
-    data: { firstName?: string; lastName?: string; email?: string }
+    data: { firstName?: string; lastName?: string; email?: string; language?: string }
   ) {
+    const { email, ...profile } = data;
+    const current = await prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!current) {
+      throw new AppError(404, 'NOT_FOUND', 'User not found');
+    }
+
+    // A new email address only replaces the current one once it is verified
+    const changesEmail = email !== undefined && email !== current.email;
+    if (changesEmail) {
+      await this.checkEmailAvailable(email, userId);
+    }
+
     const user = await prisma.user.update({
       where: { id: userId },
-      data,
+      data: {
+        ...profile,
+        ...(changesEmail ? { pendingEmail: email } : {}),
+      },
       select: {
         id: true,
         username: true,
         email: true,
         firstName: true,
         lastName: true,
+        role: true,
+        emailVerifiedAt: true,
+        pendingEmail: true,
+        language: true,
         createdAt: true,
       },
     });
 
+    if (changesEmail) {
+      await this.sendEmailVerification(user.id, user.username, email);
+    }
+
     return user;
   }
 
+  /**
+   * Change the password and sign out every other session, which may have been
+   * opened by someone who knew the old one. The current session stays signed in.
+   */
   async changePassword(
     userId: number,
     currentPassword: string,
-    newPassword: string
+    newPassword: string,
+    sessionId?: string
   ) {
     const user = await prisma.user.findUnique({
       where: { id: userId },
@@ -152,15 +179,86 @@ export class AuthService {
 
     const passwordHash = await hashPassword(newPassword);
 
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: { passwordHash },
+      }),
+      prisma.refreshToken.updateMany({
+        where: { userId, revokedAt: null, ...(sessionId && { familyId: { not: sessionId } }) },
+        data: { revokedAt: new Date() },
+      }),
+    ]);
+
+    return { message: 'Password changed successfully' };
+  }
+
+  /**
+   * Email a password reset link. Always succeeds, so the response does not
+   * reveal whether an account uses the address.
+   */
+  async forgotPassword(email: string) {
+    const user = await prisma.user.findUnique({
+      where: { email },
+    });
+
+    if (user) {
+      const token = await this.createUserToken(user.id, 'password_reset', PASSWORD_RESET_TTL);
+      await this.sendMail(passwordResetMail(user.email, user.username, token));
+    }
+
+    return { message: 'If an account exists for this email, a reset link has been sent' };
+  }
+
+  async resetPassword(token: string, newPassword: string) {
+    const stored = await this.useUserToken(token, 'password_reset');
+    const passwordHash = await hashPassword(newPassword);
+
     await prisma.user.update({
-      where: { id: userId },
+      where: { id: stored.userId },
       data: { passwordHash },
     });
 
-    return { message: 'Password changed successfully' };
+    // Sign out every session opened with the old password
+    await this.logoutEverywhere(stored.userId);
+
+    return { message: 'Password reset successfully' };
+  }
+
+  async verifyEmail(token: string) {
+    const stored = await this.useUserToken(token, 'email_verification');
+    const user = await prisma.user.findUnique({
+      where: { id: stored.userId },
+    });
+
+    if (!user || !stored.email) {
+      throw new AppError(400, 'BAD_REQUEST', 'Invalid or expired token');
+    }
+
+    const changesEmail = stored.email !== user.email;
+    if (changesEmail) {
+      if (user.pendingEmail !== stored.email) {
+        throw new AppError(400, 'BAD_REQUEST', 'This email change has been replaced by a newer one');
+      }
+      await this.checkEmailAvailable(stored.email, user.id);
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        email: stored.email,
+        emailVerifiedAt: new Date(),
+        ...(changesEmail ? { pendingEmail: null } : {}),
+      },
+    });
+
+    return { message: 'Email verified successfully', email: stored.email };
   }
 
-  async refreshToken(userId: number) {
+  /**
+   * Send the verification link again, for the pending address if there is one
+   */
+  async resendEmailVerification(userId: number) {
     const user = await prisma.user.findUnique({
       where: { id: userId },
     });
@@ -169,18 +267,201 @@ export class AuthService {
       throw new AppError(404, 'NOT_FOUND', 'User not found');
     }
 
+    if (!user.pendingEmail && user.emailVerifiedAt) {
+      throw new AppError(400, 'BAD_REQUEST', 'Email is already verified');
+    }
+
+    const email = user.pendingEmail ?? user.email;
+    await this.sendEmailVerification(user.id, user.username, email);
+
+    return { message: `Verification email sent to ${email}` };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair. Every refresh token can be
+   * used once: presenting a rotated or revoked token again revokes the whole
+   * session, since it means the token was stolen.
+   */
+  async refreshToken(refreshToken: string) {
+    let payload: ReturnType<typeof verifyRefreshToken>;
+    try {
+      payload = verifyRefreshToken(refreshToken);
+    } catch (error) {
+      throw new AppError(401, 'UNAUTHORIZED', 'Invalid or expired refresh token');
+    }
+
+    const stored = await prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(refreshToken) },
+      include: { user: true },
+    });
+
+    if (!stored || stored.familyId !== payload.sessionId) {
+      throw new AppError(401, 'UNAUTHORIZED', 'Invalid or expired refresh token');
+    }
+
+    if (stored.revokedAt || stored.usedAt) {
+      await this.revokeSession(stored.familyId);
+      throw new AppError(401, 'UNAUTHORIZED', 'Refresh token has already been used, the session was revoked');
+    }
+
+    if (stored.expiresAt <= new Date()) {
+      throw new AppError(401, 'UNAUTHORIZED', 'Invalid or expired refresh token');
+    }
+
+    // Only one request can rotate a token, a concurrent one counts as a reuse
+    const { count } = await prisma.refreshToken.updateMany({
+      where: { id: stored.id, usedAt: null, revokedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      await this.revokeSession(stored.familyId);
+      throw new AppError(401, 'UNAUTHORIZED', 'Refresh token has already been used, the session was revoked');
+    }
+
+    return this.issueTokens(stored.user, stored.familyId);
+  }
+
+  async logout(sessionId: string) {
+    await this.revokeSession(sessionId);
+
+    return { message: 'Logout successful' };
+  }
+
+  /**
+   * Revoke every session of a user
+   */
+  async logoutEverywhere(userId: number) {
+    const { count } = await prisma.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    return { message: 'Logged out of all sessions', revokedTokens: count };
+  }
+
+  /**
+   * Delete refresh tokens that expired more than a day ago
+   */
+  async purgeExpiredRefreshTokens() {
+    const { count } = await prisma.refreshToken.deleteMany({
+      where: { expiresAt: { lt: new Date(Date.now() - 24 * 60 * 60 * 1000) } },
+    });
+
+    return count;
+  }
+
+  private async sendEmailVerification(userId: number, username: string, email: string) {
+    const token = await this.createUserToken(userId, 'email_verification', EMAIL_VERIFICATION_TTL, email);
+    await this.sendMail(emailVerificationMail(email, username, token));
+  }
+
+  /**
+   * Create a single-use token, replacing the unused tokens of the same type.
+   * Only its hash is stored.
+   */
+  private async createUserToken(userId: number, type: string, ttl: number, email?: string) {
+    const token = generateSecureToken();
+
+    await prisma.$transaction([
+      prisma.userToken.updateMany({
+        where: { userId, type, usedAt: null },
+        data: { usedAt: new Date() },
+      }),
+      prisma.userToken.create({
+        data: {
+          userId,
+          type,
+          email,
+          tokenHash: hashToken(token),
+          expiresAt: new Date(Date.now() + ttl),
+        },
+      }),
+    ]);
+
+    return token;
+  }
+
+  /**
+   * Consume a token, it cannot be used again afterwards
+   */
+  private async useUserToken(token: string, type: string) {
+    const stored = await prisma.userToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+
+    if (!stored || stored.type !== type || stored.usedAt || stored.expiresAt <= new Date()) {
+      throw new AppError(400, 'BAD_REQUEST', 'Invalid or expired token');
+    }
+
+    const { count } = await prisma.userToken.updateMany({
+      where: { id: stored.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new AppError(400, 'BAD_REQUEST', 'Invalid or expired token');
+    }
+
+    return stored;
+  }
+
+  private async checkEmailAvailable(email: string, userId: number) {
+    const existing = await prisma.user.findUnique({
+      where: { email },
+    });
+
+    if (existing && existing.id !== userId) {
+      throw new AppError(409, 'CONFLICT', 'Email already exists');
+    }
+  }
+
+  /**
+   * A mail delivery failure must not fail the request that triggered it
+   */
+  private async sendMail(message: Parameters<typeof mailService.send>[0]) {
+    try {
+      await mailService.send(message);
+    } catch (error) {
+      console.error(`Failed to send mail to ${message.to}:`, error);
+    }
+  }
+
+  private async createSession(user: { id: number; email: string; username: string; role: string }) {
+    return this.issueTokens(user, randomUUID());
+  }
+
+  private async issueTokens(user: { id: number; email: string; username: string; role: string }, sessionId: string) {
     const token = generateToken({
       userId: user.id,
       email: user.email,
       username: user.username,
+      role: user.role as PlatformRole,
+      sessionId,
     });
 
     const refreshToken = generateRefreshToken({
       userId: user.id,
-      email: user.email,
-      username: user.username,
+      sessionId,
+      jti: randomUUID(),
+    });
+
+    await prisma.refreshToken.create({
+      data: {
+        userId: user.id,
+        familyId: sessionId,
+        tokenHash: hashToken(refreshToken),
+        expiresAt: new Date(verifyRefreshToken(refreshToken).exp * 1000),
+      },
     });
 
     return { token, refreshToken };
   }
+
+  private async revokeSession(sessionId: string) {
+    await prisma.refreshToken.updateMany({
+      where: { familyId: sessionId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
 }
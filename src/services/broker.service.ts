@@ -0,0 +1,170 @@
+import { EventEmitter } from 'events';
+import { Client, Pool } from 'pg';
+import prisma from '../config/database';
+import { config } from '../config/env';
+
+export interface BrokerMessage {
+  // Event id given once by the publishing instance and kept by every subscriber
+  id?: number;
+  topics: string[];
+  event: string;
+  data: any;
+}
+
+export type BrokerHandler = (message: BrokerMessage) => void;
+
+/**
+ * Carries live events between the instances of the API. Every message
+ * published on any instance is delivered to the subscribers of every instance,
+ * including the one that published it.
+ */
+export interface Broker {
+  publish(message: BrokerMessage): Promise<void>;
+  subscribe(handler: BrokerHandler): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Delivers messages inside the current process, for single-instance deployments and local development
+ */
+export class MemoryBroker implements Broker {
+  private emitter = new EventEmitter();
+
+  async publish(message: BrokerMessage): Promise<void> {
+    // Deliver asynchronously like a real broker would
+    setImmediate(() => this.emitter.emit('message', message));
+  }
+
+  async subscribe(handler: BrokerHandler): Promise<void> {
+    this.emitter.on('message', handler);
+  }
+
+  async close(): Promise<void> {
+    this.emitter.removeAllListeners();
+  }
+}
+
+const CHANNEL = 'frozenbet_events';
+// NOTIFY payloads are limited to 8000 bytes, larger messages go through the live_events table
+const MAX_NOTIFY_PAYLOAD = 7900;
+const RECONNECT_DELAY = 5000;
+
+/**
+ * Fans messages out to every instance with Postgres LISTEN/NOTIFY.
+ * Needs a direct database connection, not a pooled or proxied one.
+ */
+export class PostgresBroker implements Broker {
+  private pool: Pool;
+  private listener: Client | null = null;
+  private handlers: BrokerHandler[] = [];
+  private listening = false;
+  private closed = false;
+
+  constructor(private connectionString: string) {
+    this.pool = new Pool({ connectionString, max: 2 });
+  }
+
+  async publish(message: BrokerMessage): Promise<void> {
+    let payload = JSON.stringify(message);
+
+    if (Buffer.byteLength(payload) > MAX_NOTIFY_PAYLOAD) {
+      const { rows } = await this.pool.query<{ id: number }>(
+        'INSERT INTO "live_events" ("payload") VALUES ($1) RETURNING "id"',
+        [payload]
+      );
+      payload = JSON.stringify({ ref: rows[0].id });
+    }
+
+    await this.pool.query('SELECT pg_notify($1, $2)', [CHANNEL, payload]);
+  }
+
+  async subscribe(handler: BrokerHandler): Promise<void> {
+    this.handlers.push(handler);
+
+    if (!this.listening) {
+      this.listening = true;
+      await this.listen();
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    await this.listener?.end();
+    await this.pool.end();
+  }
+
+  private async listen(): Promise<void> {
+    const client = new Client({ connectionString: this.connectionString });
+    this.listener = client;
+
+    client.on('notification', (notification) => {
+      this.receive(notification.payload).catch(error => console.error('Failed to read live event:', error));
+    });
+
+    // Keep listening after a dropped connection
+    client.on('error', (error) => {
+      console.error('Live event listener failed:', error.message);
+      this.scheduleReconnect(client);
+    });
+    client.on('end', () => this.scheduleReconnect(client));
+
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${CHANNEL}`);
+    } catch (error) {
+      this.scheduleReconnect(client);
+      throw error;
+    }
+  }
+
+  private scheduleReconnect(client: Client): void {
+    if (this.closed || this.listener !== client) return;
+
+    this.listener = null;
+    setTimeout(() => {
+      this.listen().catch(error => console.error('Failed to reconnect live event listener:', error.message));
+    }, RECONNECT_DELAY);
+  }
+
+  private async receive(payload?: string): Promise<void> {
+    if (!payload) return;
+
+    let message = JSON.parse(payload);
+
+    if (message.ref) {
+      const { rows } = await this.pool.query<{ payload: BrokerMessage }>(
+        'SELECT "payload" FROM "live_events" WHERE "id" = $1',
+        [message.ref]
+      );
+      if (rows.length === 0) return;
+      message = rows[0].payload;
+    }
+
+    this.handlers.forEach(handler => handler(message));
+  }
+}
+
+/**
+ * Delete the stored large messages, which are only read right after being published
+ */
+export const purgeLiveEvents = async (olderThan: number) => {
+  const { count } = await prisma.liveEvent.deleteMany({
+    where: { createdAt: { lt: new Date(Date.now() - olderThan) } },
+  });
+
+  return count;
+};
+
+export const createBroker = (name: string): Broker => {
+  switch (name) {
+    case 'memory':
+      return new MemoryBroker();
+    case 'postgres':
+      if (!config.events.databaseUrl) {
+        throw new Error('EVENT_BROKER_URL or DATABASE_URL is required for the postgres broker');
+      }
+      return new PostgresBroker(config.events.databaseUrl);
+    default:
+      throw new Error(`Unknown event broker: ${name}`);
+  }
+};
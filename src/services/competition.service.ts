@@ -1,5 +1,12 @@
 import prisma from '../config/database';
 import { AppError } from '../middleware/errorHandler';
+import {
+  applyPlayoffCutLine,
+  computeStandings,
+  groupStandings,
+  resolveStandingsFormat,
+  StandingsGroupBy,
+} from '../utils/standings';
 
 export class CompetitionService {
   async getCompetitions(params: { status?: string; page?: number; limit?: number }) {
@@ -67,6 +74,9 @@ export class CompetitionService {
     startDate: Date;
     endDate: Date;
     season?: string;
+    standingsFormat?: string;
+    standingsTiebreakers?: string[];
+    playoffSpots?: number;
   }) {
     const competition = await prisma.competition.create({
       data: {
@@ -155,9 +165,19 @@ export class CompetitionService {
     };
   }
 
-  async getCompetitionStandings(id: number) {
+  async getCompetitionStandings(id: number, groupBy: StandingsGroupBy = 'overall') {
     const competition = await prisma.competition.findUnique({
       where: { id },
+      include: {
+        teams: {
+          select: {
+            id: true,
+            name: true,
+            divisionId: true,
+          },
+        },
+        divisions: true,
+      },
     });
 
     if (!competition) {
@@ -172,97 +192,227 @@ export class CompetitionService {
         homeScore: { not: null },
         awayScore: { not: null },
       },
+      select: {
+        homeTeamId: true,
+        awayTeamId: true,
+        homeScore: true,
+        awayScore: true,
+        resultType: true,
+      },
+    });
+
+    const format = resolveStandingsFormat(competition.standingsFormat, competition.standingsTiebreakers);
+    const overall = computeStandings(competition.teams, matches, format);
+
+    if (groupBy === 'overall') {
+      const cutLine = applyPlayoffCutLine(overall, competition.playoffSpots);
+
+      return {
+        standings: overall,
+        meta: {
+          groupBy,
+          standingsFormat: competition.standingsFormat,
+          cutLines: [cutLine],
+        },
+      };
+    }
+
+    const { groups, cutLines } = groupStandings(
+      overall,
+      matches,
+      format,
+      competition.divisions,
+      new Map(competition.teams.map(team => [team.id, team.divisionId])),
+      groupBy
+    );
+
+    return {
+      standings: groups,
+      meta: {
+        groupBy,
+        standingsFormat: competition.standingsFormat,
+        cutLines,
+      },
+    };
+  }
+
+  async getDivisions(competitionId: number) {
+    const competition = await prisma.competition.findUnique({
+      where: { id: competitionId },
+    });
+
+    if (!competition) {
+      throw new AppError(404, 'NOT_FOUND', 'Competition not found');
+    }
+
+    const divisions = await prisma.division.findMany({
+      where: { competitionId },
       include: {
-        homeTeam: true,
-        awayTeam: true,
+        teams: {
+          select: {
+            id: true,
+            name: true,
+            shortName: true,
+            logoUrl: true,
+          },
+          orderBy: { name: 'asc' },
+        },
       },
+      orderBy: { name: 'asc' },
     });
 
-    // Calculate standings
-    const teamStats = new Map();
-
-    matches.forEach(match => {
-      const homeTeamId = match.homeTeamId;
-      const awayTeamId = match.awayTeamId;
-      const homeScore = match.homeScore!;
-      const awayScore = match.awayScore!;
-
-      // Initialize team stats if not exists
-      if (!teamStats.has(homeTeamId)) {
-        teamStats.set(homeTeamId, {
-          teamId: homeTeamId,
-          teamName: match.homeTeam.name,
-          played: 0,
-          won: 0,
-          drawn: 0,
-          lost: 0,
-          goalsFor: 0,
-          goalsAgainst: 0,
-          goalDifference: 0,
-          points: 0,
-        });
+    // Build the conference/division tree
+    const nodes = new Map(divisions.map(d => [d.id, { ...d, children: [] as any[] }]));
+    const roots: any[] = [];
+
+    nodes.forEach(node => {
+      const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
       }
-      if (!teamStats.has(awayTeamId)) {
-        teamStats.set(awayTeamId, {
-          teamId: awayTeamId,
-          teamName: match.awayTeam.name,
-          played: 0,
-          won: 0,
-          drawn: 0,
-          lost: 0,
-          goalsFor: 0,
-          goalsAgainst: 0,
-          goalDifference: 0,
-          points: 0,
-        });
+    });
+
+    return roots;
+  }
+
+  async createDivision(competitionId: number, data: {
+    name: string;
+    shortName?: string;
+    type: string;
+    parentId?: number;
+    qualifyingSpots?: number;
+    wildcardSpots?: number;
+  }) {
+    const competition = await prisma.competition.findUnique({
+      where: { id: competitionId },
+    });
+
+    if (!competition) {
+      throw new AppError(404, 'NOT_FOUND', 'Competition not found');
+    }
+
+    if (data.parentId) {
+      if (data.type === 'conference') {
+        throw new AppError(400, 'BAD_REQUEST', 'A conference cannot have a parent');
       }
+      await this.checkDivisionParent(competitionId, data.parentId);
+    }
 
-      const homeStats = teamStats.get(homeTeamId);
-      const awayStats = teamStats.get(awayTeamId);
-
-      // Update played
-      homeStats.played += 1;
-      awayStats.played += 1;
-
-      // Update goals
-      homeStats.goalsFor += homeScore;
-      homeStats.goalsAgainst += awayScore;
-      awayStats.goalsFor += awayScore;
-      awayStats.goalsAgainst += homeScore;
-
-      // Determine winner and update stats
-      if (homeScore > awayScore) {
-        homeStats.won += 1;
-        homeStats.points += 3;
-        awayStats.lost += 1;
-      } else if (homeScore < awayScore) {
-        awayStats.won += 1;
-        awayStats.points += 3;
-        homeStats.lost += 1;
-      } else {
-        homeStats.drawn += 1;
-        homeStats.points += 1;
-        awayStats.drawn += 1;
-        awayStats.points += 1;
+    const division = await prisma.division.create({
+      data: {
+        ...data,
+        competitionId,
+      },
+    });
+
+    return division;
+  }
+
+  async updateDivision(competitionId: number, divisionId: number, data: {
+    name?: string;
+    shortName?: string;
+    type?: string;
+    parentId?: number | null;
+    qualifyingSpots?: number | null;
+    wildcardSpots?: number | null;
+  }) {
+    const existing = await this.findDivision(competitionId, divisionId);
+    const type = data.type ?? existing.type;
+    const parentId = data.parentId !== undefined ? data.parentId : existing.parentId;
+
+    if (type === 'conference' && parentId) {
+      throw new AppError(400, 'BAD_REQUEST', 'A conference cannot have a parent');
+    }
+
+    // Only conferences hold divisions, which keeps the tree two levels deep and free of cycles
+    if (data.type && type !== 'conference') {
+      const children = await prisma.division.count({
+        where: { parentId: divisionId },
+      });
+
+      if (children > 0) {
+        throw new AppError(400, 'BAD_REQUEST', 'Move the divisions out of this conference before changing its type');
+      }
+    }
+
+    if (data.parentId) {
+      if (data.parentId === divisionId) {
+        throw new AppError(400, 'BAD_REQUEST', 'A division cannot be its own parent');
       }
+      await this.checkDivisionParent(competitionId, data.parentId);
+    }
+
+    const division = await prisma.division.update({
+      where: { id: divisionId },
+      data,
+    });
+
+    return division;
+  }
+
+  async deleteDivision(competitionId: number, divisionId: number) {
+    await this.findDivision(competitionId, divisionId);
 
-      // Update goal difference
-      homeStats.goalDifference = homeStats.goalsFor - homeStats.goalsAgainst;
-      awayStats.goalDifference = awayStats.goalsFor - awayStats.goalsAgainst;
+    await prisma.division.delete({
+      where: { id: divisionId },
     });
 
-    // Convert to array and sort by points, then goal difference, then goals for
-    const standings = Array.from(teamStats.values()).sort((a, b) => {
-      if (b.points !== a.points) return b.points - a.points;
-      if (b.goalDifference !== a.goalDifference) return b.goalDifference - a.goalDifference;
-      return b.goalsFor - a.goalsFor;
+    return { message: 'Division deleted successfully' };
+  }
+
+  async assignTeamsToDivision(competitionId: number, divisionId: number, teamIds: number[]) {
+    await this.findDivision(competitionId, divisionId);
+
+    const ids = [...new Set(teamIds)];
+
+    // Check every team before assigning any
+    const found = await prisma.team.count({
+      where: {
+        id: { in: ids },
+        competitionId,
+      },
     });
 
-    // Add position
-    standings.forEach((team, index) => {
-      team.position = index + 1;
+    if (found !== ids.length) {
+      throw new AppError(400, 'BAD_REQUEST', 'Some teams do not belong to this competition');
+    }
+
+    const result = await prisma.team.updateMany({
+      where: {
+        id: { in: ids },
+        competitionId,
+      },
+      data: { divisionId },
     });
 
-    return standings;
+    return { message: 'Teams assigned successfully', count: result.count };
+  }
+
+  private async findDivision(competitionId: number, divisionId: number) {
+    const division = await prisma.division.findFirst({
+      where: { id: divisionId, competitionId },
+    });
+
+    if (!division) {
+      throw new AppError(404, 'NOT_FOUND', 'Division not found');
+    }
+
+    return division;
+  }
+
+  private async checkDivisionParent(competitionId: number, parentId: number) {
+    const parent = await prisma.division.findFirst({
+      where: { id: parentId, competitionId },
+    });
+
+    if (!parent) {
+      throw new AppError(404, 'NOT_FOUND', 'Parent division not found');
+    }
+
+    if (parent.type !== 'conference') {
+      throw new AppError(400, 'BAD_REQUEST', 'Divisions can only be nested inside a conference');
+    }
   }
 }
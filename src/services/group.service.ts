@@ -1,13 +1,22 @@
 import prisma from '../config/database';
 import { AppError } from '../middleware/errorHandler';
 import { generateInviteCode, generateInvitationToken } from '../utils/inviteCode';
+import { hideJoker } from '../utils/joker';
+import { DEFAULT_SCORING_RULES, ScoringRuleType } from '../utils/scoringRules';
+import { scoringRuleParametersSchemas } from '../validators/group.validator';
+import { InviteLinkService } from './inviteLink.service';
+import { sseService } from './sse.service';
 
 export class GroupService {
+  private inviteLinkService = new InviteLinkService();
+
   async createGroup(userId: number, data: {
     name: string;
     description?: string;
     competitionId: number;
     visibility: string;
+    joinMode?: string;
+    maxMembers?: number;
   }) {
     const competition = await prisma.competition.findUnique({
       where: { id: data.competitionId },
@@ -17,7 +26,9 @@ export class GroupService {
       throw new AppError(404, 'NOT_FOUND', 'Competition not found');
     }
 
-    const inviteCode = data.visibility === 'private' ? generateInviteCode() : null;
+    // Public groups are open by default, private groups need an invite link
+    const joinMode = data.joinMode ?? (data.visibility === 'public' ? 'open' : 'invite_code');
+    const needsInviteLink = joinMode !== 'open' || data.visibility === 'private';
 
     const group = await prisma.group.create({
       data: {
@@ -26,7 +37,11 @@ export class GroupService {
         ownerId: userId,
         competitionId: data.competitionId,
         visibility: data.visibility,
-        inviteCode,
+        joinMode,
+        maxMembers: data.maxMembers,
+        inviteLinks: needsInviteLink
+          ? { create: { code: generateInviteCode(), name: 'Default', createdById: userId } }
+          : undefined,
       },
       include: {
         owner: {
@@ -37,6 +52,7 @@ export class GroupService {
           },
         },
         competition: true,
+        inviteLinks: true,
       },
     });
 
@@ -51,14 +67,10 @@ export class GroupService {
 
     // Create default scoring rules
     await prisma.groupScoringRule.createMany({
-      data: [
-        { groupId: group.id, ruleDescription: 'Exact score', points: 5 },
-        { groupId: group.id, ruleDescription: 'Correct winner', points: 3 },
-        { groupId: group.id, ruleDescription: 'Correct draw', points: 3 },
-      ],
+      data: DEFAULT_SCORING_RULES.map(rule => ({ groupId: group.id, ...rule })),
     });
 
-    return group;
+    return { ...group, inviteCode: group.inviteLinks[0]?.code ?? null };
   }
 
   async getGroups(params: { visibility?: string; search?: string; page?: number; limit?: number }) {
@@ -135,16 +147,19 @@ export class GroupService {
       throw new AppError(404, 'NOT_FOUND', 'Group not found');
     }
 
-    // Hide invite code if user is not a member (for private groups)
-    if (group.visibility === 'private' && userId) {
-      const isMember = await prisma.groupMember.findFirst({
-        where: { groupId, userId },
-      });
-
-      if (!isMember) {
-        const { inviteCode, ...groupWithoutCode } = group;
-        return groupWithoutCode;
-      }
+    // Only members get the invite links
+    const isMember = userId
+      ? await prisma.groupMember.findFirst({
+          where: { groupId, userId },
+        })
+      : null;
+
+    if (isMember) {
+      return {
+        ...group,
+        inviteCode: await this.inviteLinkService.getActiveCode(groupId),
+        inviteLinks: await this.inviteLinkService.getInviteLinks(groupId, userId!),
+      };
     }
 
     return group;
@@ -153,6 +168,10 @@ export class GroupService {
   async updateGroup(groupId: number, userId: number, data: any) {
     await this.checkPermission(groupId, userId, ['owner', 'admin']);
 
+    const previous = await prisma.group.findUnique({
+      where: { id: groupId },
+    });
+
     const group = await prisma.group.update({
       where: { id: groupId },
       data,
@@ -167,6 +186,14 @@ export class GroupService {
       },
     });
 
+    // A group switched to private or gated needs a way in
+    const needsInviteLink = (g: { joinMode: string; visibility: string }) =>
+      g.joinMode !== 'open' || g.visibility === 'private';
+
+    if (needsInviteLink(group) && !needsInviteLink(previous!)) {
+      await this.inviteLinkService.ensureDefaultLink(groupId, userId);
+    }
+
     return group;
   }
 
@@ -189,34 +216,51 @@ export class GroupService {
       throw new AppError(404, 'NOT_FOUND', 'Group not found');
     }
 
-    if (group.visibility === 'private' && group.inviteCode !== inviteCode) {
+    // A working invite link always lets users in, otherwise only open groups can be joined directly
+    if (!inviteCode && group.joinMode === 'request') {
+      throw new AppError(403, 'FORBIDDEN', 'This group requires a join request');
+    }
+
+    if (!inviteCode && group.joinMode === 'invite_code') {
       throw new AppError(403, 'FORBIDDEN', 'Invalid invite code');
     }
 
-    // Check if already a member
-    const existingMember = await prisma.groupMember.findFirst({
-      where: { groupId, userId },
-    });
+    const link = inviteCode ? await this.inviteLinkService.findUsableLink(groupId, inviteCode) : null;
 
-    if (existingMember) {
-      throw new AppError(409, 'CONFLICT', 'Already a member of this group');
-    }
+    await this.checkCanJoin(group, userId);
 
-    const member = await prisma.groupMember.create({
-      data: {
-        groupId,
-        userId,
-        role: 'member',
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            username: true,
-            email: true,
+    const member = await prisma.$transaction(async (tx) => {
+      if (link) {
+        await this.inviteLinkService.redeem(tx, link);
+      }
+
+      return tx.groupMember.create({
+        data: {
+          groupId,
+          userId,
+          role: 'member',
+          inviteLinkId: link?.id,
+        },
+        include: {
+          user: {
+            select: {
+              id: true,
+              username: true,
+              email: true,
+            },
+          },
+          inviteLink: {
+            select: {
+              id: true,
+              name: true,
+            },
           },
         },
-      },
+      });
+    });
+
+    sseService.broadcastToGroup(groupId, 'member-joined', {
+      user: { id: member.user.id, username: member.user.username },
     });
 
     return member;
@@ -239,6 +283,8 @@ export class GroupService {
       where: { id: member.id },
     });
 
+    this.notifyMemberLeft(groupId, userId);
+
     return { message: 'Left group successfully' };
   }
 
@@ -262,6 +308,12 @@ export class GroupService {
               lastName: true,
             },
           },
+          inviteLink: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
         },
         orderBy: { totalPoints: 'desc' },
         skip,
@@ -282,6 +334,11 @@ export class GroupService {
   }
 
   async removeMember(groupId: number, userId: number, targetUserId: number) {
+    // Removing yourself is leaving, which does not ban you from the group
+    if (targetUserId === userId) {
+      return this.leaveGroup(groupId, userId);
+    }
+
     await this.checkPermission(groupId, userId, ['owner', 'admin']);
 
     const targetMember = await prisma.groupMember.findFirst({
@@ -296,11 +353,217 @@ export class GroupService {
       throw new AppError(400, 'BAD_REQUEST', 'Cannot remove group owner');
     }
 
-    await prisma.groupMember.delete({
+    // Admins can remove members, only the owner can remove an admin
+    if (targetMember.role === 'admin') {
+      await this.checkPermission(groupId, userId, ['owner']);
+    }
+
+    // Removed members cannot join again until they are unbanned
+    await prisma.$transaction([
+      prisma.groupMember.delete({
+        where: { id: targetMember.id },
+      }),
+      prisma.groupBan.upsert({
+        where: { groupId_userId: { groupId, userId: targetUserId } },
+        create: { groupId, userId: targetUserId, bannedById: userId },
+        update: {},
+      }),
+    ]);
+
+    this.notifyMemberLeft(groupId, targetUserId);
+
+    return { message: 'Member removed successfully' };
+  }
+
+  /**
+   * Check that the user can follow the group stream
+   */
+  async checkStreamAccess(groupId: number, userId: number) {
+    const group = await prisma.group.findUnique({
+      where: { id: groupId },
+    });
+
+    if (!group) {
+      throw new AppError(404, 'NOT_FOUND', 'Group not found');
+    }
+
+    const member = await prisma.groupMember.findFirst({
+      where: { groupId, userId },
+    });
+
+    if (!member) {
+      throw new AppError(403, 'FORBIDDEN', 'Not a member of this group');
+    }
+
+    return group;
+  }
+
+  /**
+   * Tell the group streams about a member who joined through an invitation or a join request
+   */
+  async notifyMemberJoined(groupId: number, userId: number) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, username: true },
+    });
+
+    sseService.broadcastToGroup(groupId, 'member-joined', { user });
+  }
+
+  /**
+   * Every instance closes the streams of the member when it receives the event
+   */
+  private notifyMemberLeft(groupId: number, userId: number) {
+    sseService.broadcastToGroup(groupId, 'member-left', { userId });
+  }
+
+  async getBans(groupId: number, userId: number) {
+    await this.checkPermission(groupId, userId, ['owner', 'admin']);
+
+    const bans = await prisma.groupBan.findMany({
+      where: { groupId },
+      include: {
+        user: {
+          select: {
+            id: true,
+            username: true,
+          },
+        },
+        bannedBy: {
+          select: {
+            id: true,
+            username: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return bans;
+  }
+
+  async unbanUser(groupId: number, userId: number, targetUserId: number) {
+    await this.checkPermission(groupId, userId, ['owner', 'admin']);
+
+    const { count } = await prisma.groupBan.deleteMany({
+      where: { groupId, userId: targetUserId },
+    });
+
+    if (count === 0) {
+      throw new AppError(404, 'NOT_FOUND', 'Ban not found');
+    }
+
+    return { message: 'User unbanned successfully' };
+  }
+
+  /**
+   * Check that a user may become a member: not already in the group,
+   * not banned from it, and the group is not full
+   */
+  async checkCanJoin(group: { id: number; maxMembers: number | null }, userId: number) {
+    const [existingMember, ban, memberCount] = await Promise.all([
+      prisma.groupMember.findFirst({
+        where: { groupId: group.id, userId },
+      }),
+      prisma.groupBan.findUnique({
+        where: { groupId_userId: { groupId: group.id, userId } },
+      }),
+      prisma.groupMember.count({
+        where: { groupId: group.id },
+      }),
+    ]);
+
+    if (existingMember) {
+      throw new AppError(409, 'CONFLICT', 'Already a member of this group');
+    }
+
+    if (ban) {
+      throw new AppError(403, 'FORBIDDEN', 'You have been removed from this group');
+    }
+
+    if (group.maxMembers !== null && memberCount >= group.maxMembers) {
+      throw new AppError(400, 'BAD_REQUEST', 'This group is full');
+    }
+  }
+
+  /**
+   * Promote a member to admin or demote an admin to member. Only the owner can
+   * change roles; ownership moves with transferOwnership.
+   */
+  async updateMemberRole(groupId: number, userId: number, targetUserId: number, role: string) {
+    await this.checkPermission(groupId, userId, ['owner']);
+
+    const targetMember = await prisma.groupMember.findFirst({
+      where: { groupId, userId: targetUserId },
+    });
+
+    if (!targetMember) {
+      throw new AppError(404, 'NOT_FOUND', 'Member not found');
+    }
+
+    if (targetMember.role === 'owner') {
+      throw new AppError(400, 'BAD_REQUEST', 'Transfer ownership to change the owner\'s role');
+    }
+
+    const member = await prisma.groupMember.update({
       where: { id: targetMember.id },
+      data: { role },
+      include: {
+        user: {
+          select: {
+            id: true,
+            username: true,
+          },
+        },
+      },
     });
 
-    return { message: 'Member removed successfully' };
+    return member;
+  }
+
+  /**
+   * Hand the group over to another member. The previous owner stays as an admin
+   * and can then leave the group.
+   */
+  async transferOwnership(groupId: number, userId: number, newOwnerId: number) {
+    await this.checkPermission(groupId, userId, ['owner']);
+
+    if (newOwnerId === userId) {
+      throw new AppError(400, 'BAD_REQUEST', 'You already own this group');
+    }
+
+    const newOwner = await prisma.groupMember.findFirst({
+      where: { groupId, userId: newOwnerId },
+    });
+
+    if (!newOwner) {
+      throw new AppError(404, 'NOT_FOUND', 'Member not found');
+    }
+
+    const [group] = await prisma.$transaction([
+      prisma.group.update({
+        where: { id: groupId },
+        data: { ownerId: newOwnerId },
+        include: {
+          owner: {
+            select: {
+              id: true,
+              username: true,
+            },
+          },
+        },
+      }),
+      prisma.groupMember.updateMany({
+        where: { groupId, userId },
+        data: { role: 'admin' },
+      }),
+      prisma.groupMember.update({
+        where: { id: newOwner.id },
+        data: { role: 'owner' },
+      }),
+    ]);
+
+    return group;
   }
 
   async getRankings(groupId: number, page?: number, limit?: number) {
@@ -389,7 +652,7 @@ export class GroupService {
     ]);
 
     return {
-      predictions,
+      predictions: predictions.map(p => hideJoker(p, userId)),
       meta: {
         page: pageNumber,
         limit: limitNumber,
@@ -417,16 +680,22 @@ export class GroupService {
   }
 
   async createScoringRule(groupId: number, userId: number, data: {
-    ruleDescription: string;
+    ruleType: ScoringRuleType;
+    ruleDescription?: string;
     points: number;
+    parameters?: Record<string, any>;
   }) {
     await this.checkPermission(groupId, userId, ['owner', 'admin']);
 
+    const parameters = scoringRuleParametersSchemas[data.ruleType].parse(data.parameters ?? {});
+
     const rule = await prisma.groupScoringRule.create({
       data: {
         groupId,
+        ruleType: data.ruleType,
         ruleDescription: data.ruleDescription,
         points: data.points,
+        parameters,
       },
     });
 
@@ -434,8 +703,10 @@ export class GroupService {
   }
 
   async updateScoringRule(groupId: number, ruleId: number, userId: number, data: {
+    ruleType?: ScoringRuleType;
     ruleDescription?: string;
     points?: number;
+    parameters?: Record<string, any>;
   }) {
     await this.checkPermission(groupId, userId, ['owner', 'admin']);
 
@@ -447,9 +718,26 @@ export class GroupService {
       throw new AppError(404, 'NOT_FOUND', 'Scoring rule not found');
     }
 
+    // Parameters are always re-validated against the resulting rule type
+    const ruleType = data.ruleType ?? (rule.ruleType as ScoringRuleType);
+    const typeChanged = ruleType !== rule.ruleType;
+    const parametersSchema = scoringRuleParametersSchemas[ruleType];
+
+    if (!parametersSchema) {
+      throw new AppError(400, 'BAD_REQUEST', 'Unknown scoring rule type, a ruleType must be provided');
+    }
+
+    const parameters = parametersSchema.parse(
+      data.parameters ?? (typeChanged ? {} : rule.parameters ?? {})
+    );
+
     const updated = await prisma.groupScoringRule.update({
       where: { id: ruleId },
-      data,
+      data: {
+        ...data,
+        ruleType,
+        parameters,
+      },
     });
 
     return updated;
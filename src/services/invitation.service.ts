@@ -1,42 +1,81 @@
+import { Prisma } from '@prisma/client';
 import prisma from '../config/database';
 import { AppError } from '../middleware/errorHandler';
 import { generateInvitationToken } from '../utils/inviteCode';
+import { invitationMail } from '../utils/mailTemplates';
+import { emailSchema, MAX_BULK_INVITATIONS } from '../validators/invitation.validator';
+import { GroupService } from './group.service';
+import { notificationService } from './notification.service';
+import { outboxService } from './outbox.service';
+
+export interface BulkInvitationAddress {
+  // Position in the emails list, or line of the CSV file
+  row: number;
+  source: 'emails' | 'csv';
+  email: string;
+}
+
+export interface BulkInvitationRow extends BulkInvitationAddress {
+  status: 'created' | 'skipped' | 'invalid';
+  reason?: string;
+  invitationId?: number;
+}
+
+const deliverySelect = {
+  id: true,
+  status: true,
+  attempts: true,
+  lastError: true,
+  sentAt: true,
+  createdAt: true,
+};
+
+// Addresses are compared and stored in lower case, users keep the case they registered with
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const BULK_TRANSACTION_TIMEOUT = 30000;
+
+/**
+ * The expire-invitations job only runs hourly, so a pending invitation past
+ * its expiry date is reported as expired before the job marks it
+ */
+const getInvitationStatus = (invitation: { status: string; expiresAt: Date }) =>
+  invitation.status === 'pending' && invitation.expiresAt <= new Date() ? 'expired' : invitation.status;
 
 export class InvitationService {
+  private groupService = new GroupService();
+
   async createInvitation(inviterId: number, data: {
     inviteeEmail: string;
     groupId: number;
+    language?: string;
   }) {
-    const group = await prisma.group.findUnique({
-      where: { id: data.groupId },
-      include: {
-        owner: true,
-      },
-    });
+    const group = await this.getInvitingGroup(data.groupId, inviterId);
+    const inviteeEmail = normalizeEmail(data.inviteeEmail);
 
-    if (!group) {
-      throw new AppError(404, 'NOT_FOUND', 'Group not found');
-    }
-
-    // Check if inviter is a member with admin or owner role
-    const inviterMember = await prisma.groupMember.findFirst({
-      where: {
-        groupId: data.groupId,
-        userId: inviterId,
-        role: { in: ['owner', 'admin'] },
-      },
+    // Registered invitees are linked to the invitation and get the email in their own language
+    const invitee = await prisma.user.findFirst({
+      where: { email: { equals: inviteeEmail, mode: 'insensitive' } },
+      select: { id: true, language: true },
     });
 
-    if (!inviterMember) {
-      throw new AppError(403, 'FORBIDDEN', 'Only group admins can send invitations');
+    if (invitee) {
+      const existingMember = await prisma.groupMember.findFirst({
+        where: { groupId: data.groupId, userId: invitee.id },
+      });
+
+      if (existingMember) {
+        throw new AppError(409, 'CONFLICT', 'User is already a member of this group');
+      }
     }
 
-    // Check if user already has a pending invitation
+    // Check if user already has a pending invitation, expired ones not swept yet don't count
     const existingInvitation = await prisma.groupInvitation.findFirst({
       where: {
         groupId: data.groupId,
-        inviteeEmail: data.inviteeEmail,
+        inviteeEmail: { equals: inviteeEmail, mode: 'insensitive' },
         status: 'pending',
+        expiresAt: { gt: new Date() },
       },
     });
 
@@ -44,45 +83,114 @@ export class InvitationService {
       throw new AppError(409, 'CONFLICT', 'User already has a pending invitation');
     }
 
-    // Generate unique token
-    const token = generateInvitationToken();
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7); // Expires in 7 days
+    const invitation = await prisma.$transaction(tx =>
+      this.insertInvitation(tx, group, inviterId, inviteeEmail, invitee, data.language)
+    );
 
-    const invitation = await prisma.groupInvitation.create({
-      data: {
-        groupId: data.groupId,
-        inviterId,
-        inviteeEmail: data.inviteeEmail,
-        token,
-        expiresAt,
-        status: 'pending',
-      },
-      include: {
-        group: {
-          select: {
-            id: true,
-            name: true,
-            description: true,
+    await this.notifyInvitee(invitation, invitee);
+
+    return invitation;
+  }
+
+  /**
+   * Invite every address of a list. Each row is reported as created, skipped
+   * (already a member, already invited or listed twice) or invalid. The report
+   * is settled before anything is written, and the invitations are created
+   * together or not at all.
+   */
+  async createBulkInvitations(inviterId: number, data: {
+    groupId: number;
+    addresses: BulkInvitationAddress[];
+    language?: string;
+  }) {
+    if (data.addresses.length > MAX_BULK_INVITATIONS) {
+      throw new AppError(400, 'BAD_REQUEST', `At most ${MAX_BULK_INVITATIONS} addresses can be invited at once`);
+    }
+
+    const group = await this.getInvitingGroup(data.groupId, inviterId);
+
+    const addresses = data.addresses.map(address => ({ ...address, email: normalizeEmail(address.email) }));
+    const validEmails = addresses
+      .map(address => address.email)
+      .filter(email => emailSchema.safeParse(email).success);
+
+    const [users, pendingInvitations] = await Promise.all([
+      prisma.user.findMany({
+        where: { email: { in: validEmails, mode: 'insensitive' } },
+        select: {
+          id: true,
+          email: true,
+          language: true,
+          groupMemberships: {
+            where: { groupId: data.groupId },
+            select: { id: true },
           },
         },
-        inviter: {
-          select: {
-            id: true,
-            username: true,
-            email: true,
-          },
+      }),
+      prisma.groupInvitation.findMany({
+        where: {
+          groupId: data.groupId,
+          inviteeEmail: { in: validEmails, mode: 'insensitive' },
+          status: 'pending',
+          expiresAt: { gt: new Date() },
         },
-      },
-    });
+        select: { inviteeEmail: true },
+      }),
+    ]);
 
-    return invitation;
+    const usersByEmail = new Map(users.map(user => [normalizeEmail(user.email), user]));
+    const invited = new Set(pendingInvitations.map(invitation => normalizeEmail(invitation.inviteeEmail)));
+    const seen = new Set<string>();
+    const rows: BulkInvitationRow[] = [];
+
+    for (const address of addresses) {
+      const user = usersByEmail.get(address.email);
+
+      if (!emailSchema.safeParse(address.email).success) {
+        rows.push({ ...address, status: 'invalid', reason: 'Invalid email address' });
+      } else if (seen.has(address.email)) {
+        rows.push({ ...address, status: 'skipped', reason: 'Listed more than once' });
+      } else if (user && user.groupMemberships.length > 0) {
+        rows.push({ ...address, status: 'skipped', reason: 'Already a member of this group' });
+      } else if (invited.has(address.email)) {
+        rows.push({ ...address, status: 'skipped', reason: 'Already has a pending invitation' });
+      } else {
+        rows.push({ ...address, status: 'created' });
+      }
+
+      seen.add(address.email);
+    }
+
+    const toCreate = rows.filter(r => r.status === 'created');
+
+    const invitations = await prisma.$transaction(async (tx) => {
+      const created = [];
+
+      for (const row of toCreate) {
+        const invitee = usersByEmail.get(row.email) ?? null;
+        created.push(await this.insertInvitation(tx, group, inviterId, row.email, invitee, data.language));
+      }
+
+      return created;
+    }, { timeout: BULK_TRANSACTION_TIMEOUT });
+
+    for (const [index, row] of toCreate.entries()) {
+      row.invitationId = invitations[index].id;
+      await this.notifyInvitee(invitations[index], usersByEmail.get(row.email) ?? null);
+    }
+
+    return {
+      created: toCreate.length,
+      skipped: rows.filter(r => r.status === 'skipped').length,
+      invalid: rows.filter(r => r.status === 'invalid').length,
+      rows,
+    };
   }
 
   async getReceivedInvitations(userEmail: string) {
     const invitations = await prisma.groupInvitation.findMany({
       where: {
-        inviteeEmail: userEmail,
+        inviteeEmail: { equals: userEmail, mode: 'insensitive' },
         status: 'pending',
         expiresAt: { gt: new Date() },
       },
@@ -118,11 +226,73 @@ export class InvitationService {
             name: true,
           },
         },
+        // Latest delivery of the invitation email
+        emails: {
+          select: deliverySelect,
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+        },
       },
       orderBy: { createdAt: 'desc' },
     });
 
-    return invitations;
+    return invitations.map(invitation => ({ ...invitation, status: getInvitationStatus(invitation) }));
+  }
+
+  /**
+   * Mark pending invitations past their expiry date as expired
+   */
+  async expireInvitations() {
+    const { count } = await prisma.groupInvitation.updateMany({
+      where: {
+        status: 'pending',
+        expiresAt: { lte: new Date() },
+      },
+      data: { status: 'expired' },
+    });
+
+    // Emails still waiting in the outbox would only send a dead link
+    await prisma.outboxEmail.updateMany({
+      where: {
+        status: 'pending',
+        invitation: { status: 'expired' },
+      },
+      data: { status: 'failed', lastError: 'Invitation expired before the email was sent' },
+    });
+
+    return count;
+  }
+
+  async getDeliveries(invitationId: number, userId: number) {
+    await this.findManagedInvitation(invitationId, userId);
+
+    const deliveries = await prisma.outboxEmail.findMany({
+      where: { invitationId },
+      select: { ...deliverySelect, to: true, language: true, nextAttemptAt: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return deliveries;
+  }
+
+  /**
+   * Queue the invitation email again, rendered from the current group and inviter
+   */
+  async resendInvitation(invitationId: number, userId: number) {
+    const invitation = await this.findManagedInvitation(invitationId, userId);
+
+    this.checkPending(invitation);
+
+    const email = await this.queueInvitationMail(invitation);
+
+    return {
+      id: email.id,
+      status: email.status,
+      attempts: email.attempts,
+      lastError: email.lastError,
+      sentAt: email.sentAt,
+      createdAt: email.createdAt,
+    };
   }
 
   async acceptInvitation(token: string, userId: number, userEmail: string) {
@@ -135,17 +305,11 @@ export class InvitationService {
       throw new AppError(404, 'NOT_FOUND', 'Invitation not found');
     }
 
-    if (invitation.inviteeEmail !== userEmail) {
+    if (normalizeEmail(invitation.inviteeEmail) !== normalizeEmail(userEmail)) {
       throw new AppError(403, 'FORBIDDEN', 'This invitation is not for you');
     }
 
-    if (invitation.status !== 'pending') {
-      throw new AppError(400, 'BAD_REQUEST', 'Invitation has already been processed');
-    }
-
-    if (new Date() > invitation.expiresAt) {
-      throw new AppError(400, 'BAD_REQUEST', 'Invitation has expired');
-    }
+    this.checkPending(invitation);
 
     // Check if already a member
     const existingMember = await prisma.groupMember.findFirst({
@@ -159,7 +323,17 @@ export class InvitationService {
       throw new AppError(409, 'CONFLICT', 'Already a member of this group');
     }
 
-    // Accept invitation and add user to group
+    if (invitation.group.maxMembers !== null) {
+      const memberCount = await prisma.groupMember.count({
+        where: { groupId: invitation.groupId },
+      });
+
+      if (memberCount >= invitation.group.maxMembers) {
+        throw new AppError(400, 'BAD_REQUEST', 'This group is full');
+      }
+    }
+
+    // Accept invitation and add user to group, an explicit invitation lifts a previous ban
     await prisma.$transaction([
       prisma.groupInvitation.update({
         where: { id: invitation.id },
@@ -172,8 +346,25 @@ export class InvitationService {
           role: 'member',
         },
       }),
+      prisma.groupBan.deleteMany({
+        where: { groupId: invitation.groupId, userId },
+      }),
     ]);
 
+    await this.groupService.notifyMemberJoined(invitation.groupId, userId);
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { username: true },
+    });
+
+    await notificationService.notify([{
+      userId: invitation.inviterId,
+      type: 'invitation_accepted',
+      message: `${user!.username} accepted your invitation to ${invitation.group.name}`,
+      data: { invitationId: invitation.id, groupId: invitation.groupId, userId },
+    }]);
+
     return {
       message: 'Invitation accepted successfully',
       group: invitation.group,
@@ -189,13 +380,11 @@ export class InvitationService {
       throw new AppError(404, 'NOT_FOUND', 'Invitation not found');
     }
 
-    if (invitation.inviteeEmail !== userEmail) {
+    if (normalizeEmail(invitation.inviteeEmail) !== normalizeEmail(userEmail)) {
       throw new AppError(403, 'FORBIDDEN', 'This invitation is not for you');
     }
 
-    if (invitation.status !== 'pending') {
-      throw new AppError(400, 'BAD_REQUEST', 'Invitation has already been processed');
-    }
+    this.checkPending(invitation);
 
     await prisma.groupInvitation.update({
       where: { id: invitation.id },
@@ -206,6 +395,149 @@ export class InvitationService {
   }
 
   async deleteInvitation(invitationId: number, userId: number) {
+    await this.findManagedInvitation(invitationId, userId);
+
+    await prisma.groupInvitation.delete({
+      where: { id: invitationId },
+    });
+
+    return { message: 'Invitation deleted successfully' };
+  }
+
+  private checkPending(invitation: { status: string; expiresAt: Date }) {
+    const status = getInvitationStatus(invitation);
+
+    if (status === 'expired') {
+      throw new AppError(400, 'BAD_REQUEST', 'Invitation has expired');
+    }
+
+    if (status !== 'pending') {
+      throw new AppError(400, 'BAD_REQUEST', 'Invitation has already been processed');
+    }
+  }
+
+  private async getInvitingGroup(groupId: number, inviterId: number) {
+    const group = await prisma.group.findUnique({
+      where: { id: groupId },
+    });
+
+    if (!group) {
+      throw new AppError(404, 'NOT_FOUND', 'Group not found');
+    }
+
+    // Check if inviter is a member with admin or owner role
+    const inviterMember = await prisma.groupMember.findFirst({
+      where: {
+        groupId,
+        userId: inviterId,
+        role: { in: ['owner', 'admin'] },
+      },
+    });
+
+    if (!inviterMember) {
+      throw new AppError(403, 'FORBIDDEN', 'Only group admins can send invitations');
+    }
+
+    return group;
+  }
+
+  /**
+   * Create the invitation and queue its email, in the caller's transaction
+   */
+  private async insertInvitation(
+    client: Prisma.TransactionClient,
+    group: { id: number; invitationExpiryDays: number },
+    inviterId: number,
+    inviteeEmail: string,
+    invitee: { id: number; language: string } | null,
+    language?: string
+  ) {
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + group.invitationExpiryDays);
+
+    const invitation = await client.groupInvitation.create({
+      data: {
+        groupId: group.id,
+        inviterId,
+        inviteeEmail,
+        inviteeUserId: invitee?.id,
+        token: generateInvitationToken(),
+        expiresAt,
+        status: 'pending',
+        language: invitee?.language ?? language,
+      },
+      include: {
+        group: {
+          select: {
+            id: true,
+            name: true,
+            description: true,
+          },
+        },
+        inviter: {
+          select: {
+            id: true,
+            username: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    await this.queueInvitationMail(invitation, client);
+
+    return invitation;
+  }
+
+  /**
+   * Invitees with an account can also accept from their inbox
+   */
+  private async notifyInvitee(
+    invitation: { id: number; groupId: number; token: string; inviter: { username: string }; group: { name: string } },
+    invitee: { id: number } | null
+  ) {
+    if (!invitee) return;
+
+    await notificationService.notify([{
+      userId: invitee.id,
+      type: 'invitation_received',
+      message: `${invitation.inviter.username} invited you to join ${invitation.group.name}`,
+      data: { invitationId: invitation.id, groupId: invitation.groupId, token: invitation.token },
+    }]);
+  }
+
+  private async queueInvitationMail(invitation: {
+    id: number;
+    groupId: number;
+    inviterId: number;
+    inviteeEmail: string;
+    token: string;
+    expiresAt: Date;
+    language: string;
+  }, client: Prisma.TransactionClient = prisma) {
+    const [group, inviter] = await Promise.all([
+      client.group.findUnique({ where: { id: invitation.groupId } }),
+      client.user.findUnique({ where: { id: invitation.inviterId } }),
+    ]);
+
+    const message = invitationMail(invitation.inviteeEmail, invitation.language, {
+      inviterName: inviter!.username,
+      groupName: group!.name,
+      token: invitation.token,
+      expiresAt: invitation.expiresAt,
+    });
+
+    return outboxService.queue(message, {
+      template: 'invitation',
+      language: invitation.language,
+      invitationId: invitation.id,
+    }, client);
+  }
+
+  /**
+   * Find an invitation the user may manage: they sent it or have admin rights in the group
+   */
+  private async findManagedInvitation(invitationId: number, userId: number) {
     const invitation = await prisma.groupInvitation.findUnique({
       where: { id: invitationId },
     });
@@ -214,7 +546,6 @@ export class InvitationService {
       throw new AppError(404, 'NOT_FOUND', 'Invitation not found');
     }
 
-    // Check if user is the inviter or has admin rights in the group
     const member = await prisma.groupMember.findFirst({
       where: {
         groupId: invitation.groupId,
@@ -227,10 +558,6 @@ export class InvitationService {
       throw new AppError(403, 'FORBIDDEN', 'Insufficient permissions');
     }
 
-    await prisma.groupInvitation.delete({
-      where: { id: invitationId },
-    });
-
-    return { message: 'Invitation deleted successfully' };
+    return invitation;
   }
 }
@@ -0,0 +1,207 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { generateInviteCode, getInviteLinkError } from '../utils/inviteCode';
+
+const linkInclude = {
+  createdBy: {
+    select: {
+      id: true,
+      username: true,
+    },
+  },
+  _count: {
+    select: {
+      members: true,
+    },
+  },
+};
+
+export class InviteLinkService {
+  /**
+   * Owners and admins see every link with its usage, other members only the links that still work
+   */
+  async getInviteLinks(groupId: number, userId: number) {
+    const member = await prisma.groupMember.findFirst({
+      where: { groupId, userId },
+    });
+
+    if (!member) {
+      throw new AppError(403, 'FORBIDDEN', 'Not a member of this group');
+    }
+
+    const links = await prisma.groupInviteLink.findMany({
+      where: { groupId },
+      include: linkInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (member.role === 'owner' || member.role === 'admin') {
+      return links;
+    }
+
+    return links
+      .filter(link => getInviteLinkError(link) === null)
+      .map(({ id, code, name, expiresAt }) => ({ id, code, name, expiresAt }));
+  }
+
+  async createInviteLink(groupId: number, userId: number, data: {
+    name?: string;
+    expiresAt?: Date;
+    maxUses?: number;
+  }) {
+    await this.checkPermission(groupId, userId, ['owner', 'admin']);
+
+    const link = await prisma.groupInviteLink.create({
+      data: {
+        groupId,
+        code: generateInviteCode(),
+        name: data.name,
+        createdById: userId,
+        expiresAt: data.expiresAt,
+        maxUses: data.maxUses,
+      },
+      include: linkInclude,
+    });
+
+    return link;
+  }
+
+  async updateInviteLink(groupId: number, linkId: number, userId: number, data: {
+    name?: string | null;
+    expiresAt?: Date | null;
+    maxUses?: number | null;
+  }) {
+    await this.checkPermission(groupId, userId, ['owner', 'admin']);
+    await this.findLink(groupId, linkId);
+
+    const link = await prisma.groupInviteLink.update({
+      where: { id: linkId },
+      data,
+      include: linkInclude,
+    });
+
+    return link;
+  }
+
+  /**
+   * Replace a leaked code. The old code stops working, the usage count is kept.
+   */
+  async regenerateInviteLink(groupId: number, linkId: number, userId: number) {
+    await this.checkPermission(groupId, userId, ['owner', 'admin']);
+    await this.findLink(groupId, linkId);
+
+    const link = await prisma.groupInviteLink.update({
+      where: { id: linkId },
+      data: { code: generateInviteCode(), disabledAt: null },
+      include: linkInclude,
+    });
+
+    return link;
+  }
+
+  async disableInviteLink(groupId: number, linkId: number, userId: number) {
+    await this.checkPermission(groupId, userId, ['owner', 'admin']);
+    const link = await this.findLink(groupId, linkId);
+
+    if (!link.disabledAt) {
+      await prisma.groupInviteLink.update({
+        where: { id: linkId },
+        data: { disabledAt: new Date() },
+      });
+    }
+
+    return { message: 'Invite link disabled successfully' };
+  }
+
+  /**
+   * Find the link matching a code for a group, failing when it can no longer be used
+   */
+  async findUsableLink(groupId: number, code: string) {
+    const link = await prisma.groupInviteLink.findFirst({
+      where: { groupId, code },
+    });
+
+    if (!link) {
+      throw new AppError(403, 'FORBIDDEN', 'Invalid invite code');
+    }
+
+    const error = getInviteLinkError(link);
+    if (error) {
+      throw new AppError(403, 'FORBIDDEN', error);
+    }
+
+    return link;
+  }
+
+  /**
+   * Count a use of the link. The max-uses check is repeated in the update
+   * so two users cannot take the last use at the same time.
+   */
+  async redeem(client: Prisma.TransactionClient, link: { id: number; maxUses: number | null }) {
+    const { count } = await client.groupInviteLink.updateMany({
+      where: link.maxUses === null ? { id: link.id } : { id: link.id, uses: { lt: link.maxUses } },
+      data: { uses: { increment: 1 } },
+    });
+
+    if (count === 0) {
+      throw new AppError(403, 'FORBIDDEN', 'Invite link has reached its maximum uses');
+    }
+  }
+
+  /**
+   * The code of the oldest working link, returned as the group's `inviteCode`
+   * for clients written before groups had several links
+   */
+  async getActiveCode(groupId: number) {
+    const links = await prisma.groupInviteLink.findMany({
+      where: { groupId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return links.find(link => getInviteLinkError(link) === null)?.code ?? null;
+  }
+
+  /**
+   * Give a group that never had an invite link a default one. Groups whose
+   * links were all disabled keep them that way until an admin creates a new one.
+   */
+  async ensureDefaultLink(groupId: number, userId: number) {
+    const links = await prisma.groupInviteLink.count({
+      where: { groupId },
+    });
+
+    if (links > 0) return;
+
+    await prisma.groupInviteLink.create({
+      data: {
+        groupId,
+        code: generateInviteCode(),
+        name: 'Default',
+        createdById: userId,
+      },
+    });
+  }
+
+  private async findLink(groupId: number, linkId: number) {
+    const link = await prisma.groupInviteLink.findFirst({
+      where: { id: linkId, groupId },
+    });
+
+    if (!link) {
+      throw new AppError(404, 'NOT_FOUND', 'Invite link not found');
+    }
+
+    return link;
+  }
+
+  private async checkPermission(groupId: number, userId: number, allowedRoles: string[]) {
+    const member = await prisma.groupMember.findFirst({
+      where: { groupId, userId },
+    });
+
+    if (!member || !allowedRoles.includes(member.role)) {
+      throw new AppError(403, 'FORBIDDEN', 'Insufficient permissions');
+    }
+  }
+}
@@ -0,0 +1,247 @@
+import prisma from '../config/database';
+import { config } from '../config/env';
+
+export type JobHandler = (payload: any) => Promise<unknown>;
+
+interface JobDefinition {
+  handler: JobHandler;
+  /**
+   * Periodic jobs are scheduled again this many milliseconds after each run
+   */
+  interval?: number;
+  maxAttempts: number;
+}
+
+interface ClaimedJob {
+  id: number;
+  type: string;
+  payload: any;
+  attempts: number;
+  max_attempts: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const BATCH_SIZE = 20;
+// A running job not finished after this long is considered abandoned by a stopped instance
+const LOCK_TIMEOUT = 10 * 60 * 1000;
+
+const periodicKey = (type: string) => `periodic:${type}`;
+
+const retryDelay = (attempts: number) => Math.min(Math.pow(2, attempts) * 30 * 1000, 60 * 60 * 1000);
+
+/**
+ * Runs jobs persisted in the database, so queued work survives restarts.
+ * Jobs are claimed with SKIP LOCKED, which lets several instances share the queue.
+ */
+export class JobService {
+  private definitions: Map<string, JobDefinition> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  register(type: string, handler: JobHandler, options: { interval?: number; maxAttempts?: number } = {}): void {
+    this.definitions.set(type, {
+      handler,
+      interval: options.interval,
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    });
+  }
+
+  /**
+   * Queue a job. A job with a key is only queued when no pending job, including
+   * one waiting for a retry, has the same key. A running job may already have
+   * read its data, so it hands its key over to the new run.
+   */
+  async enqueue(type: string, payload: Record<string, any> = {}, options: {
+    runAt?: Date;
+    key?: string;
+    maxAttempts?: number;
+  } = {}) {
+    const data = {
+      type,
+      payload,
+      key: options.key,
+      runAt: options.runAt ?? new Date(),
+      maxAttempts: options.maxAttempts ?? this.definitions.get(type)?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    };
+
+    if (!options.key) {
+      return prisma.job.create({ data });
+    }
+
+    return prisma.$transaction(async (tx) => {
+      await tx.job.updateMany({
+        where: { key: options.key, status: 'running' },
+        data: { key: null },
+      });
+
+      return tx.job.upsert({
+        where: { key: options.key },
+        create: data,
+        update: {},
+      });
+    });
+  }
+
+  /**
+   * Schedule the periodic jobs and start polling for due jobs
+   */
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    await this.schedulePeriodicJobs();
+
+    this.timer = setInterval(() => {
+      this.runDue().catch(error => console.error('Job runner failed:', error));
+    }, config.jobs.pollInterval);
+
+    console.log(`Job runner started with ${this.definitions.size} job types`);
+  }
+
+  /**
+   * Make sure every periodic job has a pending run
+   */
+  async schedulePeriodicJobs(): Promise<void> {
+    for (const [type, definition] of this.definitions) {
+      if (definition.interval) {
+        await this.enqueue(type, {}, { key: periodicKey(type) });
+      }
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run the jobs that are due. Returns the number of jobs run.
+   */
+  async runDue(): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+
+    try {
+      await this.releaseAbandonedJobs();
+
+      const jobs = await this.claimDueJobs();
+      for (const job of jobs) {
+        await this.runJob(job);
+      }
+
+      return jobs.length;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  async getJobs(params: { status?: string; type?: string; page?: number; limit?: number }) {
+    const where: any = {};
+    if (params.status) where.status = params.status;
+    if (params.type) where.type = params.type;
+
+    const pageNumber = params.page || 1;
+    const limitNumber = params.limit || 20;
+    const skip = (pageNumber - 1) * limitNumber;
+
+    const [jobs, total] = await Promise.all([
+      prisma.job.findMany({
+        where,
+        orderBy: { runAt: 'desc' },
+        skip,
+        take: limitNumber,
+      }),
+      prisma.job.count({ where }),
+    ]);
+
+    return {
+      jobs,
+      meta: {
+        page: pageNumber,
+        limit: limitNumber,
+        total,
+        totalPages: Math.ceil(total / limitNumber),
+      },
+    };
+  }
+
+  /**
+   * Delete finished jobs older than the given age
+   */
+  async purgeFinishedJobs(olderThan: number) {
+    const { count } = await prisma.job.deleteMany({
+      where: {
+        status: { in: ['completed', 'failed'] },
+        updatedAt: { lt: new Date(Date.now() - olderThan) },
+      },
+    });
+
+    return count;
+  }
+
+  private async claimDueJobs(): Promise<ClaimedJob[]> {
+    return prisma.$queryRaw<ClaimedJob[]>`
+      UPDATE "jobs"
+      SET "status" = 'running', "locked_at" = NOW(), "attempts" = "attempts" + 1, "updated_at" = NOW()
+      WHERE "id" IN (
+        SELECT "id" FROM "jobs"
+        WHERE "status" = 'pending' AND "run_at" <= NOW()
+        ORDER BY "run_at"
+        LIMIT ${BATCH_SIZE}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING "id", "type", "payload", "attempts", "max_attempts"
+    `;
+  }
+
+  private async runJob(job: ClaimedJob): Promise<void> {
+    const definition = this.definitions.get(job.type);
+
+    try {
+      if (!definition) {
+        throw new Error(`No handler registered for job type ${job.type}`);
+      }
+
+      await definition.handler(job.payload);
+
+      await prisma.job.update({
+        where: { id: job.id },
+        data: { status: 'completed', completedAt: new Date(), lockedAt: null, lastError: null, key: null },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // Periodic jobs are not retried, their next run takes over
+      const retry = !definition?.interval && job.attempts < job.max_attempts;
+
+      await prisma.job.update({
+        where: { id: job.id },
+        data: retry
+          ? { status: 'pending', runAt: new Date(Date.now() + retryDelay(job.attempts)), lockedAt: null, lastError: message }
+          : { status: 'failed', lockedAt: null, lastError: message, key: null },
+      });
+
+      console.error(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}:`, message);
+    }
+
+    if (definition?.interval) {
+      await this.enqueue(job.type, {}, {
+        key: periodicKey(job.type),
+        runAt: new Date(Date.now() + definition.interval),
+      });
+    }
+  }
+
+  private async releaseAbandonedJobs(): Promise<void> {
+    await prisma.job.updateMany({
+      where: {
+        status: 'running',
+        lockedAt: { lt: new Date(Date.now() - LOCK_TIMEOUT) },
+      },
+      data: { status: 'pending', lockedAt: null },
+    });
+  }
+}
+
+// Singleton instance
+export const jobService = new JobService();
@@ -0,0 +1,166 @@
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { GroupService } from './group.service';
+
+const requestInclude = {
+  user: {
+    select: {
+      id: true,
+      username: true,
+    },
+  },
+  decidedBy: {
+    select: {
+      id: true,
+      username: true,
+    },
+  },
+};
+
+export class JoinRequestService {
+  private groupService = new GroupService();
+
+  async createJoinRequest(groupId: number, userId: number, message?: string) {
+    const group = await prisma.group.findUnique({
+      where: { id: groupId },
+    });
+
+    if (!group) {
+      throw new AppError(404, 'NOT_FOUND', 'Group not found');
+    }
+
+    if (group.joinMode !== 'request') {
+      throw new AppError(400, 'BAD_REQUEST', 'This group does not accept join requests');
+    }
+
+    await this.groupService.checkCanJoin(group, userId);
+
+    const pending = await prisma.groupJoinRequest.findFirst({
+      where: { groupId, userId, status: 'pending' },
+    });
+
+    if (pending) {
+      throw new AppError(409, 'CONFLICT', 'A join request is already pending for this group');
+    }
+
+    const request = await prisma.groupJoinRequest.create({
+      data: { groupId, userId, message },
+      include: requestInclude,
+    });
+
+    return request;
+  }
+
+  async getJoinRequests(groupId: number, userId: number, status = 'pending') {
+    await this.checkPermission(groupId, userId, ['owner', 'admin']);
+
+    const requests = await prisma.groupJoinRequest.findMany({
+      where: { groupId, status },
+      include: requestInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return requests;
+  }
+
+  async getMyJoinRequests(userId: number) {
+    const requests = await prisma.groupJoinRequest.findMany({
+      where: { userId },
+      include: {
+        group: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return requests;
+  }
+
+  async approveJoinRequest(groupId: number, requestId: number, userId: number) {
+    await this.checkPermission(groupId, userId, ['owner', 'admin']);
+    const request = await this.findPendingRequest(groupId, requestId);
+
+    const group = await prisma.group.findUnique({
+      where: { id: groupId },
+    });
+
+    await this.groupService.checkCanJoin(group!, request.userId);
+
+    const [updated] = await prisma.$transaction([
+      prisma.groupJoinRequest.update({
+        where: { id: requestId },
+        data: { status: 'approved', decidedById: userId, decidedAt: new Date() },
+        include: requestInclude,
+      }),
+      prisma.groupMember.create({
+        data: {
+          groupId,
+          userId: request.userId,
+          role: 'member',
+        },
+      }),
+    ]);
+
+    await this.groupService.notifyMemberJoined(groupId, request.userId);
+
+    return updated;
+  }
+
+  async rejectJoinRequest(groupId: number, requestId: number, userId: number) {
+    await this.checkPermission(groupId, userId, ['owner', 'admin']);
+    await this.findPendingRequest(groupId, requestId);
+
+    const updated = await prisma.groupJoinRequest.update({
+      where: { id: requestId },
+      data: { status: 'rejected', decidedById: userId, decidedAt: new Date() },
+      include: requestInclude,
+    });
+
+    return updated;
+  }
+
+  async cancelJoinRequest(groupId: number, requestId: number, userId: number) {
+    const request = await this.findPendingRequest(groupId, requestId);
+
+    if (request.userId !== userId) {
+      throw new AppError(403, 'FORBIDDEN', 'Only the requester can cancel a join request');
+    }
+
+    await prisma.groupJoinRequest.update({
+      where: { id: requestId },
+      data: { status: 'cancelled', decidedAt: new Date() },
+    });
+
+    return { message: 'Join request cancelled successfully' };
+  }
+
+  private async findPendingRequest(groupId: number, requestId: number) {
+    const request = await prisma.groupJoinRequest.findFirst({
+      where: { id: requestId, groupId },
+    });
+
+    if (!request) {
+      throw new AppError(404, 'NOT_FOUND', 'Join request not found');
+    }
+
+    if (request.status !== 'pending') {
+      throw new AppError(400, 'BAD_REQUEST', `Join request has already been ${request.status}`);
+    }
+
+    return request;
+  }
+
+  private async checkPermission(groupId: number, userId: number, allowedRoles: string[]) {
+    const member = await prisma.groupMember.findFirst({
+      where: { groupId, userId },
+    });
+
+    if (!member || !allowedRoles.includes(member.role)) {
+      throw new AppError(403, 'FORBIDDEN', 'Insufficient permissions');
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { config } from '../config/env';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export class SmtpTransport implements MailTransport {
+  private transporter = nodemailer.createTransport({
+    host: config.mail.smtp.host,
+    port: config.mail.smtp.port,
+    secure: config.mail.smtp.secure,
+    auth: config.mail.smtp.user
+      ? { user: config.mail.smtp.user, pass: config.mail.smtp.password }
+      : undefined,
+  });
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+/**
+ * Writes every message as a JSON file, for local development and tests
+ */
+export class FileTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    const file = path.join(this.directory, `${Date.now()}-${randomUUID()}.json`);
+    await writeFile(file, JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2));
+  }
+}
+
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(`Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+export const MAIL_TRANSPORTS = ['console', 'file', 'smtp'] as const;
+
+export const createMailTransport = (name: string | undefined): MailTransport => {
+  switch (name) {
+    case 'smtp':
+      return new SmtpTransport();
+    case 'file':
+      return new FileTransport(config.mail.outboxDir);
+    case 'console':
+      return new ConsoleTransport();
+    case undefined:
+      throw new Error('MAIL_TRANSPORT is not set');
+    default:
+      throw new Error(`Unknown mail transport: ${name}`);
+  }
+};
+
+/**
+ * The transport is created on the first email, so importing the service never fails
+ */
+export class MailService {
+  private transport: MailTransport | null = null;
+
+  constructor(private createTransport: () => MailTransport) {}
+
+  async send(message: MailMessage): Promise<void> {
+    this.transport ??= this.createTransport();
+    await this.transport.send({ ...message, from: config.mail.from });
+  }
+}
+
+// Singleton instance
+export const mailService = new MailService(() => createMailTransport(config.mail.transport));
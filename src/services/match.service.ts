@@ -1,10 +1,15 @@
+import { Prisma } from '@prisma/client';
 import prisma from '../config/database';
+import { config } from '../config/env';
 import { AppError } from '../middleware/errorHandler';
-import { PredictionService } from './prediction.service';
+import { FinalScore, resolveRegulationScore } from '../utils/matchResult';
+import { PlayoffService } from './playoff.service';
+import { notificationService } from './notification.service';
+import { scoringService } from './scoring.service';
 import { sseService } from './sse.service';
 
 export class MatchService {
-  private predictionService = new PredictionService();
+  private playoffService = new PlayoffService();
 
   async createMatch(data: {
     competitionId: number;
@@ -12,7 +17,23 @@ export class MatchService {
     awayTeamId: number;
     scheduledDate: Date;
     location?: string;
+    seriesId?: number;
   }) {
+    if (data.seriesId) {
+      const series = await prisma.playoffSeries.findFirst({
+        where: { id: data.seriesId, competitionId: data.competitionId },
+      });
+
+      if (!series) {
+        throw new AppError(404, 'NOT_FOUND', 'Series not found');
+      }
+
+      const seriesTeams = [series.topTeamId, series.bottomTeamId];
+      if (!seriesTeams.includes(data.homeTeamId) || !seriesTeams.includes(data.awayTeamId)) {
+        throw new AppError(400, 'BAD_REQUEST', 'Match teams do not play in this series');
+      }
+    }
+
     const match = await prisma.match.create({
       data: {
         ...data,
@@ -46,12 +67,17 @@ export class MatchService {
 
     // Broadcast status change if status has changed
     if (oldMatch && oldMatch.status !== match.status) {
-      sseService.broadcastMatchStatusChange(id, match.status, {
+      sseService.broadcastMatchStatusChange(id, match.competitionId, match.status, {
         homeTeam: match.homeTeam.name,
         awayTeam: match.awayTeam.name,
         competition: match.competition.name,
         scheduledDate: match.scheduledDate,
       });
+
+      // Predictions lock when the match leaves the scheduled state
+      if (oldMatch.status === 'scheduled') {
+        await this.revealPredictions(id);
+      }
     }
 
     return match;
@@ -65,7 +91,7 @@ export class MatchService {
     return { message: 'Match deleted successfully' };
   }
 
-  async updateScore(id: number, homeScore: number, awayScore: number, status?: string) {
+  async updateScore(id: number, score: FinalScore, status?: string) {
     const match = await prisma.match.findUnique({
       where: { id },
       include: {
@@ -79,12 +105,29 @@ export class MatchService {
       throw new AppError(404, 'NOT_FOUND', 'Match not found');
     }
 
-    const updated = await prisma.match.update({
+    const updated = await this.writeScore(prisma, id, score, status);
+    await this.afterScoreChange(match, updated);
+
+    return updated;
+  }
+
+  /**
+   * Store a score, inside the caller's transaction when given one.
+   * Call afterScoreChange once it is committed.
+   */
+  async writeScore(client: Prisma.TransactionClient, id: number, score: FinalScore, status?: string) {
+    const { resultType, regulationHomeScore, regulationAwayScore } = resolveRegulationScore(score);
+
+    return client.match.update({
       where: { id },
       data: {
-        homeScore,
-        awayScore,
+        homeScore: score.homeScore,
+        awayScore: score.awayScore,
+        resultType,
+        regulationHomeScore,
+        regulationAwayScore,
         status: status || 'finished',
+        staleAt: status === 'live' ? undefined : null,
       },
       include: {
         homeTeam: true,
@@ -92,23 +135,88 @@ export class MatchService {
         competition: true,
       },
     });
+  }
+
+  /**
+   * Broadcast a stored score, then lock, notify and score the predictions as needed
+   */
+  async afterScoreChange(
+    previous: { status: string },
+    updated: Awaited<ReturnType<MatchService['writeScore']>>
+  ) {
+    const id = updated.id;
 
     // Broadcast score update to all subscribed clients
-    sseService.broadcastScoreUpdate(id, {
-      homeScore,
-      awayScore,
+    sseService.broadcastScoreUpdate(id, updated.competitionId, {
+      homeScore: updated.homeScore,
+      awayScore: updated.awayScore,
+      resultType: updated.resultType,
       homeTeam: updated.homeTeam.name,
       awayTeam: updated.awayTeam.name,
       status: updated.status,
       competition: updated.competition.name,
     });
 
-    // Calculate points for all predictions on this match if finished
+    if (previous.status === 'scheduled') {
+      await this.revealPredictions(id);
+    }
+
+    // Corrections to a finished match don't notify again
+    if (updated.status === 'finished' && previous.status !== 'finished') {
+      await this.notifyMatchFinished(updated);
+    }
+
+    // Score the predictions on this match in the background once it is finished
     if (updated.status === 'finished') {
-      await this.predictionService.calculatePointsForMatch(id);
+      await scoringService.enqueueMatch(id);
+
+      // Advance the playoff series once enough games are won
+      if (updated.seriesId) {
+        await this.playoffService.recordSeriesResult(updated.seriesId);
+      }
     }
+  }
 
-    return updated;
+  /**
+   * Flip scheduled matches to live once their scheduled date has passed
+   */
+  async startDueMatches() {
+    const due = await prisma.match.findMany({
+      where: {
+        status: 'scheduled',
+        scheduledDate: { lte: new Date() },
+      },
+      select: { id: true },
+    });
+
+    for (const { id } of due) {
+      await this.updateMatch(id, { status: 'live' });
+    }
+
+    return due.length;
+  }
+
+  /**
+   * Flag live matches that are still running long after kickoff,
+   * usually because nobody entered the final score
+   */
+  async flagStaleMatches() {
+    const cutoff = new Date(Date.now() - config.jobs.staleMatchHours * 60 * 60 * 1000);
+
+    const { count } = await prisma.match.updateMany({
+      where: {
+        status: 'live',
+        staleAt: null,
+        scheduledDate: { lte: cutoff },
+      },
+      data: { staleAt: new Date() },
+    });
+
+    if (count > 0) {
+      console.warn(`Flagged ${count} live matches as stale`);
+    }
+
+    return count;
   }
 
   async getFinishedMatches() {
@@ -127,4 +235,69 @@ export class MatchService {
 
     return matches;
   }
+
+  /**
+   * Tell the users who predicted a match its final score
+   */
+  private async notifyMatchFinished(match: {
+    id: number;
+    homeScore: number | null;
+    awayScore: number | null;
+    resultType: string | null;
+    homeTeam: { name: string };
+    awayTeam: { name: string };
+  }) {
+    const predictors = await prisma.prediction.findMany({
+      where: { matchId: match.id },
+      select: { userId: true },
+      distinct: ['userId'],
+    });
+
+    await notificationService.notify(predictors.map(({ userId }) => ({
+      userId,
+      type: 'match_finished',
+      message: `Final: ${match.homeTeam.name} ${match.homeScore} - ${match.awayScore} ${match.awayTeam.name}`,
+      data: {
+        matchId: match.id,
+        homeScore: match.homeScore,
+        awayScore: match.awayScore,
+        resultType: match.resultType,
+      },
+    })));
+  }
+
+  /**
+   * Push the predictions of a match that just locked to each group stream
+   */
+  private async revealPredictions(matchId: number) {
+    const predictions = await prisma.prediction.findMany({
+      where: { matchId },
+      select: {
+        id: true,
+        groupId: true,
+        homeScorePrediction: true,
+        awayScorePrediction: true,
+        resultTypePrediction: true,
+        isJoker: true,
+        user: {
+          select: {
+            id: true,
+            username: true,
+          },
+        },
+      },
+    });
+
+    const byGroup = new Map<number, typeof predictions>();
+    predictions.forEach(p => {
+      byGroup.set(p.groupId, [...(byGroup.get(p.groupId) || []), p]);
+    });
+
+    byGroup.forEach((groupPredictions, groupId) => {
+      sseService.broadcastToGroup(groupId, 'predictions-revealed', {
+        matchId,
+        predictions: groupPredictions,
+      });
+    });
+  }
 }
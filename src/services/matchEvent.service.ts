@@ -0,0 +1,231 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { deriveScore, getMatchEventError, getPowerPlays } from '../utils/matchTimeline';
+import { MatchService } from './match.service';
+import { sseService } from './sse.service';
+
+const eventInclude = {
+  team: {
+    select: {
+      id: true,
+      name: true,
+      shortName: true,
+    },
+  },
+};
+
+interface MatchEventData {
+  type?: string;
+  period?: number;
+  periodTime?: number;
+  teamId?: number | null;
+  player?: string | null;
+  assists?: string[];
+  strength?: string | null;
+  penaltyMinutes?: number | null;
+  description?: string | null;
+}
+
+type TimelineMatch = { id: number; homeTeamId: number; awayTeamId: number };
+
+interface StoredScore {
+  homeScore: number | null;
+  awayScore: number | null;
+  resultType: string | null;
+  regulationHomeScore: number | null;
+  regulationAwayScore: number | null;
+}
+
+type StoredScoreMatch = TimelineMatch & StoredScore & { status: string };
+
+const isSameScore = (score: StoredScore, match: StoredScore) =>
+  score.homeScore === match.homeScore &&
+  score.awayScore === match.awayScore &&
+  score.resultType === match.resultType &&
+  score.regulationHomeScore === match.regulationHomeScore &&
+  score.regulationAwayScore === match.regulationAwayScore;
+
+/**
+ * Goals, penalties and period changes of a match. Once a match has goals,
+ * its score is derived from them and every change is broadcast live.
+ */
+export class MatchEventService {
+  private matchService = new MatchService();
+
+  /**
+   * The events of a match in game order, with the power plays they drew
+   */
+  async getTimeline(match: TimelineMatch) {
+    const events = await prisma.matchEvent.findMany({
+      where: { matchId: match.id },
+      include: eventInclude,
+      orderBy: [{ period: 'asc' }, { periodTime: 'asc' }, { id: 'asc' }],
+    });
+
+    return {
+      events,
+      powerPlays: getPowerPlays(events, match.homeTeamId, match.awayTeamId),
+    };
+  }
+
+  async getMatchTimeline(matchId: number) {
+    const match = await prisma.match.findUnique({
+      where: { id: matchId },
+    });
+
+    if (!match) {
+      throw new AppError(404, 'NOT_FOUND', 'Match not found');
+    }
+
+    return this.getTimeline(match);
+  }
+
+  async createEvent(matchId: number, data: MatchEventData & { type: string; period: number }, userId: number) {
+    const match = await this.findRecordableMatch(matchId);
+    this.checkEvent(data, match);
+
+    const drivesScore = data.type === 'goal' && await this.goalsDriveScore(match);
+
+    const { event, updated } = await prisma.$transaction(async (tx) => {
+      const event = await tx.matchEvent.create({
+        data: {
+          ...data,
+          matchId,
+          createdById: userId,
+        },
+        include: eventInclude,
+      });
+
+      return { event, updated: drivesScore ? await this.syncScore(tx, match) : null };
+    });
+
+    sseService.broadcastMatchEvent(matchId, match.competitionId, 'match-event', { event });
+
+    if (updated) {
+      await this.matchService.afterScoreChange(match, updated);
+    }
+
+    return event;
+  }
+
+  async updateEvent(matchId: number, eventId: number, data: MatchEventData) {
+    const match = await this.findRecordableMatch(matchId);
+    const existing = await this.findEvent(matchId, eventId);
+    this.checkEvent({ ...existing, ...data }, match);
+
+    const drivesScore = (existing.type === 'goal' || data.type === 'goal') && await this.goalsDriveScore(match);
+
+    const { event, updated } = await prisma.$transaction(async (tx) => {
+      const event = await tx.matchEvent.update({
+        where: { id: eventId },
+        data,
+        include: eventInclude,
+      });
+
+      return { event, updated: drivesScore ? await this.syncScore(tx, match) : null };
+    });
+
+    sseService.broadcastMatchEvent(matchId, match.competitionId, 'match-event-updated', { event });
+
+    if (updated) {
+      await this.matchService.afterScoreChange(match, updated);
+    }
+
+    return event;
+  }
+
+  async deleteEvent(matchId: number, eventId: number) {
+    const match = await this.findRecordableMatch(matchId);
+    const existing = await this.findEvent(matchId, eventId);
+
+    const drivesScore = existing.type === 'goal' && await this.goalsDriveScore(match);
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await tx.matchEvent.delete({
+        where: { id: eventId },
+      });
+
+      return drivesScore ? this.syncScore(tx, match) : null;
+    });
+
+    sseService.broadcastMatchEvent(matchId, match.competitionId, 'match-event-deleted', { eventId });
+
+    if (updated) {
+      await this.matchService.afterScoreChange(match, updated);
+    }
+
+    return { message: 'Match event deleted successfully' };
+  }
+
+  /**
+   * A live match follows its goals. A finished match only does once its goals
+   * add up to the stored score, so backfilling the timeline of a match scored
+   * by hand doesn't overwrite the final score with a partial one.
+   */
+  private async goalsDriveScore(match: StoredScoreMatch) {
+    if (match.status !== 'finished') return true;
+
+    const goals = await prisma.matchEvent.findMany({
+      where: { matchId: match.id, type: 'goal' },
+    });
+
+    return isSameScore(deriveScore(goals, match.homeTeamId, match.awayTeamId), match);
+  }
+
+  /**
+   * Store the score derived from the goals, in the transaction recording the change.
+   * Returns the updated match, or null when the score did not change.
+   */
+  private async syncScore(tx: Prisma.TransactionClient, match: StoredScoreMatch) {
+    const goals = await tx.matchEvent.findMany({
+      where: { matchId: match.id, type: 'goal' },
+    });
+
+    const score = deriveScore(goals, match.homeTeamId, match.awayTeamId);
+    if (isSameScore(score, match)) return null;
+
+    return this.matchService.writeScore(tx, match.id, score, match.status);
+  }
+
+  private checkEvent(
+    event: { type: string; period: number; teamId?: number | null; penaltyMinutes?: number | null },
+    match: TimelineMatch
+  ) {
+    const error = getMatchEventError(event, [match.homeTeamId, match.awayTeamId]);
+    if (error) {
+      throw new AppError(400, 'BAD_REQUEST', error);
+    }
+  }
+
+  /**
+   * Events are recorded while a match is played, and corrected after it ended
+   */
+  private async findRecordableMatch(matchId: number) {
+    const match = await prisma.match.findUnique({
+      where: { id: matchId },
+    });
+
+    if (!match) {
+      throw new AppError(404, 'NOT_FOUND', 'Match not found');
+    }
+
+    if (match.status !== 'live' && match.status !== 'finished') {
+      throw new AppError(400, 'BAD_REQUEST', 'Events can only be recorded for live or finished matches');
+    }
+
+    return match;
+  }
+
+  private async findEvent(matchId: number, eventId: number) {
+    const event = await prisma.matchEvent.findFirst({
+      where: { id: eventId, matchId },
+    });
+
+    if (!event) {
+      throw new AppError(404, 'NOT_FOUND', 'Match event not found');
+    }
+
+    return event;
+  }
+}
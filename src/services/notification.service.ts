@@ -0,0 +1,156 @@
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { NOTIFICATION_TYPES, NotificationType } from '../validators/notification.validator';
+import { sseService, userTopic } from './sse.service';
+
+export interface NewNotification {
+  userId: number;
+  type: NotificationType;
+  message: string;
+  data?: Record<string, any>;
+}
+
+/**
+ * In-app inbox. Notifications are stored for the users who did not turn their
+ * type off, and pushed to their live streams as `notification` events.
+ */
+export class NotificationService {
+  async notify(notifications: NewNotification[]) {
+    if (notifications.length === 0) return [];
+
+    const muted = await prisma.notificationPreference.findMany({
+      where: {
+        userId: { in: [...new Set(notifications.map(n => n.userId))] },
+        enabled: false,
+      },
+    });
+    const mutedKeys = new Set(muted.map(p => `${p.userId}:${p.type}`));
+
+    const wanted = notifications.filter(n => !mutedKeys.has(`${n.userId}:${n.type}`));
+    if (wanted.length === 0) return [];
+
+    const created = await prisma.notification.createManyAndReturn({
+      data: wanted.map(n => ({ ...n, data: n.data ?? {} })),
+    });
+
+    created.forEach((notification) => {
+      sseService.publish([userTopic(notification.userId)], 'notification', { notification });
+    });
+
+    return created;
+  }
+
+  async getNotifications(userId: number, options: { page: number; limit: number; unread?: boolean }) {
+    const where = options.unread ? { userId, readAt: null } : { userId };
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (options.page - 1) * options.limit,
+        take: options.limit,
+      }),
+      prisma.notification.count({ where }),
+      this.getUnreadCount(userId),
+    ]);
+
+    return { notifications, total, unreadCount };
+  }
+
+  async getUnreadCount(userId: number) {
+    return prisma.notification.count({
+      where: { userId, readAt: null },
+    });
+  }
+
+  /**
+   * Mark notifications as read, every unread one when no ids are given
+   */
+  async markRead(userId: number, ids?: number[]) {
+    const { count } = await prisma.notification.updateMany({
+      where: { userId, readAt: null, ...(ids && { id: { in: ids } }) },
+      data: { readAt: new Date() },
+    });
+
+    const unreadCount = await this.publishUnreadCount(userId);
+
+    return { updated: count, unreadCount };
+  }
+
+  async markOneRead(userId: number, notificationId: number) {
+    await this.findNotification(userId, notificationId);
+    return this.markRead(userId, [notificationId]);
+  }
+
+  /**
+   * Remove notifications from the inbox, by id, every read one, or all of them
+   */
+  async dismiss(userId: number, options: { ids?: number[]; filter?: 'read' | 'all' }) {
+    const { count } = await prisma.notification.deleteMany({
+      where: {
+        userId,
+        ...(options.ids && { id: { in: options.ids } }),
+        ...(options.filter === 'read' && { readAt: { not: null } }),
+      },
+    });
+
+    const unreadCount = await this.publishUnreadCount(userId);
+
+    return { dismissed: count, unreadCount };
+  }
+
+  async dismissOne(userId: number, notificationId: number) {
+    await this.findNotification(userId, notificationId);
+    return this.dismiss(userId, { ids: [notificationId] });
+  }
+
+  async getPreferences(userId: number) {
+    const preferences = await prisma.notificationPreference.findMany({
+      where: { userId },
+    });
+
+    return NOTIFICATION_TYPES.map(type => ({
+      type,
+      enabled: preferences.find(p => p.type === type)?.enabled ?? true,
+    }));
+  }
+
+  async updatePreferences(userId: number, preferences: Partial<Record<NotificationType, boolean>>) {
+    await prisma.$transaction(
+      Object.entries(preferences).map(([type, enabled]) =>
+        prisma.notificationPreference.upsert({
+          where: { userId_type: { userId, type } },
+          create: { userId, type, enabled },
+          update: { enabled },
+        })
+      )
+    );
+
+    return this.getPreferences(userId);
+  }
+
+  /**
+   * Keep the badge of the user's other devices in sync
+   */
+  private async publishUnreadCount(userId: number) {
+    const unreadCount = await this.getUnreadCount(userId);
+    sseService.publish([userTopic(userId)], 'notifications-updated', { unreadCount });
+
+    return unreadCount;
+  }
+
+  private async findNotification(userId: number, notificationId: number) {
+    const notification = await prisma.notification.findFirst({
+      where: { id: notificationId, userId },
+    });
+
+    if (!notification) {
+      throw new AppError(404, 'NOT_FOUND', 'Notification not found');
+    }
+
+    return notification;
+  }
+}
+
+// Singleton instance
+export const notificationService = new NotificationService();
@@ -0,0 +1,114 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { MailMessage, MailService, mailService } from './mail.service';
+
+interface ClaimedEmail {
+  id: number;
+  to_address: string;
+  subject: string;
+  text: string;
+  html: string | null;
+  attempts: number;
+  max_attempts: number;
+}
+
+const BATCH_SIZE = 50;
+// An email still sending after this long is considered abandoned by a stopped instance
+const LOCK_TIMEOUT = 10 * 60 * 1000;
+
+const retryDelay = (attempts: number) => Math.min(Math.pow(2, attempts) * 60 * 1000, 6 * 60 * 60 * 1000);
+
+/**
+ * Emails are rendered when queued and stored in the database, then sent by
+ * the deliver-emails job. A failed delivery is retried with a growing delay.
+ */
+export class OutboxService {
+  constructor(private mailer: MailService = mailService) {}
+
+  async queue(message: MailMessage, options: {
+    template: string;
+    language: string;
+    invitationId?: number;
+  }, client: Prisma.TransactionClient = prisma) {
+    return client.outboxEmail.create({
+      data: {
+        template: options.template,
+        language: options.language,
+        invitationId: options.invitationId,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      },
+    });
+  }
+
+  /**
+   * Send the emails that are due. Returns the number of emails sent.
+   */
+  async deliverDue(): Promise<number> {
+    await this.releaseAbandonedEmails();
+
+    const emails = await this.claimDueEmails();
+    let sent = 0;
+
+    for (const email of emails) {
+      try {
+        await this.mailer.send({
+          to: email.to_address,
+          subject: email.subject,
+          text: email.text,
+          html: email.html ?? undefined,
+        });
+
+        await prisma.outboxEmail.update({
+          where: { id: email.id },
+          data: { status: 'sent', sentAt: new Date(), lockedAt: null, lastError: null },
+        });
+        sent++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const retry = email.attempts < email.max_attempts;
+
+        await prisma.outboxEmail.update({
+          where: { id: email.id },
+          data: retry
+            ? { status: 'pending', nextAttemptAt: new Date(Date.now() + retryDelay(email.attempts)), lockedAt: null, lastError: message }
+            : { status: 'failed', lockedAt: null, lastError: message },
+        });
+
+        console.error(`Email ${email.id} to ${email.to_address} failed on attempt ${email.attempts}:`, message);
+      }
+    }
+
+    return sent;
+  }
+
+  private async claimDueEmails(): Promise<ClaimedEmail[]> {
+    return prisma.$queryRaw<ClaimedEmail[]>`
+      UPDATE "outbox_emails"
+      SET "status" = 'sending', "locked_at" = NOW(), "attempts" = "attempts" + 1, "updated_at" = NOW()
+      WHERE "id" IN (
+        SELECT "id" FROM "outbox_emails"
+        WHERE "status" = 'pending' AND "next_attempt_at" <= NOW()
+        ORDER BY "next_attempt_at"
+        LIMIT ${BATCH_SIZE}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING "id", "to_address", "subject", "text", "html", "attempts", "max_attempts"
+    `;
+  }
+
+  private async releaseAbandonedEmails(): Promise<void> {
+    await prisma.outboxEmail.updateMany({
+      where: {
+        status: 'sending',
+        lockedAt: { lt: new Date(Date.now() - LOCK_TIMEOUT) },
+      },
+      data: { status: 'pending', lockedAt: null },
+    });
+  }
+}
+
+// Singleton instance
+export const outboxService = new OutboxService();
@@ -0,0 +1,354 @@
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import {
+  getSeedingOrder,
+  getWinsNeeded,
+  isPowerOfTwo,
+  isValidSeriesLength,
+  scoreBracketPick,
+} from '../utils/bracket';
+import { PredictionService } from './prediction.service';
+
+const seriesInclude = {
+  topTeam: true,
+  bottomTeam: true,
+  winner: true,
+};
+
+export class PlayoffService {
+  private predictionService = new PredictionService();
+
+  async createBracket(competitionId: number, data: { teamIds: number[]; bestOf: number[] }) {
+    const competition = await prisma.competition.findUnique({
+      where: { id: competitionId },
+    });
+
+    if (!competition) {
+      throw new AppError(404, 'NOT_FOUND', 'Competition not found');
+    }
+
+    const existing = await prisma.playoffSeries.count({
+      where: { competitionId },
+    });
+
+    if (existing > 0) {
+      throw new AppError(409, 'CONFLICT', 'A playoff bracket already exists for this competition');
+    }
+
+    if (!isPowerOfTwo(data.teamIds.length)) {
+      throw new AppError(400, 'BAD_REQUEST', 'The number of playoff teams must be a power of two');
+    }
+
+    if (new Set(data.teamIds).size !== data.teamIds.length) {
+      throw new AppError(400, 'BAD_REQUEST', 'A team cannot be seeded twice');
+    }
+
+    const teamCount = await prisma.team.count({
+      where: { id: { in: data.teamIds }, competitionId },
+    });
+
+    if (teamCount !== data.teamIds.length) {
+      throw new AppError(400, 'BAD_REQUEST', 'Some teams do not belong to this competition');
+    }
+
+    const rounds = Math.log2(data.teamIds.length);
+    const bestOfForRound = (round: number) => data.bestOf[Math.min(round, data.bestOf.length) - 1];
+    const seedingOrder = getSeedingOrder(data.teamIds.length);
+
+    await prisma.$transaction(async (tx) => {
+      // Create from the final backwards so each series knows where its winner goes
+      let nextRound: { id: number }[] = [];
+
+      for (let round = rounds; round >= 1; round--) {
+        const seriesCount = data.teamIds.length / Math.pow(2, round);
+        const created: { id: number }[] = [];
+
+        for (let position = 0; position < seriesCount; position++) {
+          const firstRound = round === 1
+            ? {
+                topSeed: seedingOrder[position * 2],
+                bottomSeed: seedingOrder[position * 2 + 1],
+                topTeamId: data.teamIds[seedingOrder[position * 2] - 1],
+                bottomTeamId: data.teamIds[seedingOrder[position * 2 + 1] - 1],
+              }
+            : {};
+
+          created.push(await tx.playoffSeries.create({
+            data: {
+              competitionId,
+              round,
+              position,
+              bestOf: bestOfForRound(round),
+              nextSeriesId: nextRound[Math.floor(position / 2)]?.id ?? null,
+              ...firstRound,
+            },
+            select: { id: true },
+          }));
+        }
+
+        nextRound = created;
+      }
+    });
+
+    return this.getBracket(competitionId);
+  }
+
+  async getBracket(competitionId: number) {
+    const series = await prisma.playoffSeries.findMany({
+      where: { competitionId },
+      include: seriesInclude,
+      orderBy: [{ round: 'asc' }, { position: 'asc' }],
+    });
+
+    if (series.length === 0) {
+      throw new AppError(404, 'NOT_FOUND', 'No playoff bracket for this competition');
+    }
+
+    const rounds = new Map<number, typeof series>();
+    series.forEach(s => {
+      rounds.set(s.round, [...(rounds.get(s.round) || []), s]);
+    });
+
+    return {
+      locked: await this.isBracketLocked(competitionId),
+      rounds: Array.from(rounds.entries()).map(([round, roundSeries]) => ({
+        round,
+        series: roundSeries,
+      })),
+    };
+  }
+
+  /**
+   * Recount a series from its finished matches, then advance the winner
+   * and score the bracket picks. Safe to run again after a score correction.
+   */
+  async recordSeriesResult(seriesId: number) {
+    const series = await prisma.playoffSeries.findUnique({
+      where: { id: seriesId },
+      include: {
+        matches: {
+          where: {
+            status: 'finished',
+            homeScore: { not: null },
+            awayScore: { not: null },
+          },
+        },
+      },
+    });
+
+    if (!series) {
+      throw new AppError(404, 'NOT_FOUND', 'Series not found');
+    }
+
+    let topWins = 0;
+    let bottomWins = 0;
+
+    series.matches.forEach(match => {
+      // Final scores include the overtime or shootout winner, a tie is a score still to be corrected
+      if (match.homeScore === match.awayScore) return;
+
+      const winnerId = match.homeScore! > match.awayScore! ? match.homeTeamId : match.awayTeamId;
+      if (winnerId === series.topTeamId) topWins++;
+      else if (winnerId === series.bottomTeamId) bottomWins++;
+    });
+
+    const winsNeeded = getWinsNeeded(series.bestOf);
+    const winnerTeamId = topWins >= winsNeeded
+      ? series.topTeamId
+      : bottomWins >= winsNeeded ? series.bottomTeamId : null;
+    const status = winnerTeamId ? 'finished' : topWins + bottomWins > 0 ? 'in_progress' : 'pending';
+
+    await prisma.playoffSeries.update({
+      where: { id: seriesId },
+      data: { topWins, bottomWins, winnerTeamId, status },
+    });
+
+    if (series.nextSeriesId && winnerTeamId !== series.winnerTeamId) {
+      const winnerSeed = winnerTeamId === null
+        ? null
+        : winnerTeamId === series.topTeamId ? series.topSeed : series.bottomSeed;
+
+      await prisma.playoffSeries.update({
+        where: { id: series.nextSeriesId },
+        data: series.position % 2 === 0
+          ? { topTeamId: winnerTeamId, topSeed: winnerSeed }
+          : { bottomTeamId: winnerTeamId, bottomSeed: winnerSeed },
+      });
+    }
+
+    await this.scoreSeries(seriesId);
+  }
+
+  async submitBracket(groupId: number, userId: number, picks: {
+    seriesId: number;
+    winnerTeamId: number;
+    games: number;
+  }[]) {
+    const group = await this.getChallengeGroup(groupId, userId);
+
+    if (await this.isBracketLocked(group.competitionId)) {
+      throw new AppError(400, 'BAD_REQUEST', 'Brackets are locked once the playoffs have started');
+    }
+
+    const series = await prisma.playoffSeries.findMany({
+      where: { competitionId: group.competitionId },
+      orderBy: [{ round: 'asc' }, { position: 'asc' }],
+    });
+
+    if (series.length === 0) {
+      throw new AppError(404, 'NOT_FOUND', 'No playoff bracket for this competition');
+    }
+
+    const picksBySeries = new Map(picks.map(p => [p.seriesId, p]));
+
+    if (picksBySeries.size !== picks.length || series.some(s => !picksBySeries.has(s.id)) || picks.length !== series.length) {
+      throw new AppError(400, 'BAD_REQUEST', 'A bracket must contain exactly one pick for every series');
+    }
+
+    // Each pick must be one of the two teams that can reach the series in this bracket
+    for (const s of series) {
+      const pick = picksBySeries.get(s.id)!;
+      const contenders = s.round === 1
+        ? [s.topTeamId, s.bottomTeamId]
+        : series.filter(f => f.nextSeriesId === s.id).map(f => picksBySeries.get(f.id)!.winnerTeamId);
+
+      if (!contenders.includes(pick.winnerTeamId)) {
+        throw new AppError(400, 'BAD_REQUEST', `Invalid winner for series ${s.id}`);
+      }
+
+      if (!isValidSeriesLength(s.bestOf, pick.games)) {
+        throw new AppError(400, 'BAD_REQUEST', `Invalid series length for series ${s.id}`);
+      }
+    }
+
+    await prisma.$transaction([
+      prisma.bracketPrediction.deleteMany({
+        where: { groupId, userId },
+      }),
+      prisma.bracketPrediction.createMany({
+        data: picks.map(p => ({
+          groupId,
+          userId,
+          seriesId: p.seriesId,
+          winnerTeamId: p.winnerTeamId,
+          games: p.games,
+        })),
+      }),
+    ]);
+
+    return this.getBracketPredictions(groupId, userId);
+  }
+
+  async getBracketPredictions(groupId: number, userId: number) {
+    const group = await this.getChallengeGroup(groupId, userId);
+    const locked = await this.isBracketLocked(group.competitionId);
+
+    // Other members' brackets stay hidden until the playoffs start
+    const predictions = await prisma.bracketPrediction.findMany({
+      where: locked ? { groupId } : { groupId, userId },
+      include: {
+        user: {
+          select: {
+            id: true,
+            username: true,
+          },
+        },
+        winner: true,
+        series: {
+          select: {
+            id: true,
+            round: true,
+            position: true,
+          },
+        },
+      },
+      orderBy: [{ userId: 'asc' }, { seriesId: 'asc' }],
+    });
+
+    return { locked, predictions };
+  }
+
+  /**
+   * The bracket locks when the first playoff game starts
+   */
+  async isBracketLocked(competitionId: number): Promise<boolean> {
+    const [firstMatch, startedSeries] = await Promise.all([
+      prisma.match.findFirst({
+        where: { competitionId, seriesId: { not: null } },
+        orderBy: { scheduledDate: 'asc' },
+      }),
+      prisma.playoffSeries.count({
+        where: { competitionId, status: { not: 'pending' } },
+      }),
+    ]);
+
+    return startedSeries > 0 || (!!firstMatch && new Date(firstMatch.scheduledDate) <= new Date());
+  }
+
+  private async scoreSeries(seriesId: number) {
+    const series = await prisma.playoffSeries.findUnique({
+      where: { id: seriesId },
+      include: {
+        bracketPredictions: {
+          include: { group: true },
+        },
+      },
+    });
+
+    if (!series) return;
+
+    const games = series.topWins + series.bottomWins;
+
+    // A corrected series result replaces the previous points
+    const changed = series.bracketPredictions
+      .map(prediction => ({
+        id: prediction.id,
+        groupId: prediction.groupId,
+        previous: prediction.pointsEarned,
+        points: series.winnerTeamId
+          ? scoreBracketPick(prediction, { winnerTeamId: series.winnerTeamId, games }, {
+              winner: prediction.group.bracketWinnerPoints,
+              length: prediction.group.bracketLengthPoints,
+            })
+          : null,
+      }))
+      .filter(p => p.points !== p.previous);
+
+    if (changed.length === 0) return;
+
+    await prisma.$transaction(async (tx) => {
+      for (const prediction of changed) {
+        await tx.bracketPrediction.update({
+          where: { id: prediction.id },
+          data: { pointsEarned: prediction.points },
+        });
+      }
+
+      await this.predictionService.refreshGroupTotals(tx, [...new Set(changed.map(p => p.groupId))]);
+    });
+  }
+
+  private async getChallengeGroup(groupId: number, userId: number) {
+    const group = await prisma.group.findUnique({
+      where: { id: groupId },
+    });
+
+    if (!group) {
+      throw new AppError(404, 'NOT_FOUND', 'Group not found');
+    }
+
+    if (!group.bracketChallenge) {
+      throw new AppError(400, 'BAD_REQUEST', 'This group does not run a bracket challenge');
+    }
+
+    const member = await prisma.groupMember.findFirst({
+      where: { groupId, userId },
+    });
+
+    if (!member) {
+      throw new AppError(403, 'FORBIDDEN', 'Not a member of this group');
+    }
+
+    return group;
+  }
+}
@@ -1,5 +1,52 @@
+import { Prisma } from '@prisma/client';
 import prisma from '../config/database';
 import { AppError } from '../middleware/errorHandler';
+import { getMatchdayFilter, isMatchLocked } from '../utils/joker';
+import { MatchResultType } from '../utils/matchResult';
+import { calculatePredictionPoints, ScoringRuleConfig } from '../utils/scoringRules';
+import { notificationService } from './notification.service';
+import { sseService } from './sse.service';
+
+// Rescoring whole groups can take longer than the default interactive transaction timeout
+const TRANSACTION_TIMEOUT = 30000;
+
+interface RankChange {
+  groupId: number;
+  userId: number;
+  rank: number;
+  previousRank: number | null;
+}
+
+const scorePrediction = (
+  prediction: {
+    homeScorePrediction: number;
+    awayScorePrediction: number;
+    resultTypePrediction: string | null;
+    isJoker: boolean;
+  },
+  match: {
+    homeScore: number | null;
+    awayScore: number | null;
+    resultType: string | null;
+    regulationHomeScore: number | null;
+    regulationAwayScore: number | null;
+  },
+  group: { scoringRules: ScoringRuleConfig[]; jokerMultiplier: number }
+): number => {
+  const points = calculatePredictionPoints(
+    prediction,
+    {
+      homeScore: match.homeScore!,
+      awayScore: match.awayScore!,
+      resultType: match.resultType as MatchResultType,
+      regulationHomeScore: match.regulationHomeScore,
+      regulationAwayScore: match.regulationAwayScore,
+    },
+    group.scoringRules
+  );
+
+  return prediction.isJoker ? points * group.jokerMultiplier : points;
+};
 
 export class PredictionService {
   async createPrediction(userId: number, data: {
@@ -7,6 +54,8 @@ export class PredictionService {
     groupId: number;
     homeScorePrediction: number;
     awayScorePrediction: number;
+    resultTypePrediction?: string;
+    isJoker?: boolean;
   }) {
     const match = await prisma.match.findUnique({
       where: { id: data.matchId },
@@ -44,23 +93,31 @@ export class PredictionService {
       throw new AppError(409, 'CONFLICT', 'Prediction already exists for this match');
     }
 
-    const prediction = await prisma.prediction.create({
-      data: {
-        userId,
-        matchId: data.matchId,
-        groupId: data.groupId,
-        homeScorePrediction: data.homeScorePrediction,
-        awayScorePrediction: data.awayScorePrediction,
-      },
-      include: {
-        match: {
-          include: {
-            homeTeam: true,
-            awayTeam: true,
+    const prediction = await prisma.$transaction(async (tx) => {
+      if (data.isJoker) {
+        await this.checkJokerAllowance(tx, data.groupId, userId, match);
+      }
+
+      return tx.prediction.create({
+        data: {
+          userId,
+          matchId: data.matchId,
+          groupId: data.groupId,
+          homeScorePrediction: data.homeScorePrediction,
+          awayScorePrediction: data.awayScorePrediction,
+          resultTypePrediction: data.resultTypePrediction,
+          isJoker: data.isJoker ?? false,
+        },
+        include: {
+          match: {
+            include: {
+              homeTeam: true,
+              awayTeam: true,
+            },
           },
+          group: true,
         },
-        group: true,
-      },
+      });
     });
 
     return prediction;
@@ -69,6 +126,8 @@ export class PredictionService {
   async updatePrediction(predictionId: number, userId: number, data: {
     homeScorePrediction: number;
     awayScorePrediction: number;
+    resultTypePrediction?: string;
+    isJoker?: boolean;
   }) {
     const prediction = await prisma.prediction.findUnique({
       where: { id: predictionId },
@@ -87,20 +146,28 @@ export class PredictionService {
       throw new AppError(400, 'BAD_REQUEST', 'Cannot update after match has started');
     }
 
-    const updated = await prisma.prediction.update({
-      where: { id: predictionId },
-      data: {
-        homeScorePrediction: data.homeScorePrediction,
-        awayScorePrediction: data.awayScorePrediction,
-      },
-      include: {
-        match: {
-          include: {
-            homeTeam: true,
-            awayTeam: true,
+    const updated = await prisma.$transaction(async (tx) => {
+      if (data.isJoker && !prediction.isJoker) {
+        await this.checkJokerAllowance(tx, prediction.groupId, userId, prediction.match);
+      }
+
+      return tx.prediction.update({
+        where: { id: predictionId },
+        data: {
+          homeScorePrediction: data.homeScorePrediction,
+          awayScorePrediction: data.awayScorePrediction,
+          resultTypePrediction: data.resultTypePrediction ?? null,
+          isJoker: data.isJoker,
+        },
+        include: {
+          match: {
+            include: {
+              homeTeam: true,
+              awayTeam: true,
+            },
           },
         },
-      },
+      });
     });
 
     return updated;
@@ -230,7 +297,8 @@ export class PredictionService {
       throw new AppError(404, 'NOT_FOUND', 'Match not found');
     }
 
-    if (new Date(match.scheduledDate) > new Date() && match.status === 'scheduled') {
+    // Until the match locks, members only see their own prediction and joker
+    if (!isMatchLocked(match)) {
       const userPrediction = await prisma.prediction.findFirst({
         where: { matchId, groupId, userId },
         include: {
@@ -262,9 +330,16 @@ export class PredictionService {
     return predictions;
   }
 
+  /**
+   * Score every prediction on a finished match in bulk. Member totals and
+   * ranks are rebuilt from the stored points with set-based queries, so running
+   * it again after a score correction replaces the earlier results instead of
+   * adding to them.
+   */
   async calculatePointsForMatch(matchId: number) {
     const match = await prisma.match.findUnique({
       where: { id: matchId },
+      include: { homeTeam: true, awayTeam: true },
     });
 
     if (!match || match.status !== 'finished') {
@@ -277,139 +352,316 @@ export class PredictionService {
 
     const predictions = await prisma.prediction.findMany({
       where: { matchId },
-      include: {
-        group: {
-          include: {
-            scoringRules: true,
-          },
-        },
+      select: {
+        id: true,
+        userId: true,
+        groupId: true,
+        homeScorePrediction: true,
+        awayScorePrediction: true,
+        resultTypePrediction: true,
+        isJoker: true,
+        pointsEarned: true,
       },
     });
 
-    for (const prediction of predictions) {
-      const points = this.calculatePoints(
-        prediction.homeScorePrediction,
-        prediction.awayScorePrediction,
-        match.homeScore,
-        match.awayScore,
-        prediction.group.scoringRules
-      );
-
-      await prisma.prediction.update({
-        where: { id: prediction.id },
-        data: { pointsEarned: points },
-      });
+    const groupIds = [...new Set(predictions.map(p => p.groupId))];
+    const groups = await prisma.group.findMany({
+      where: { id: { in: groupIds } },
+      select: { id: true, name: true, jokerMultiplier: true, scoringRules: true },
+    });
+    const groupsById = new Map(groups.map(g => [g.id, g]));
+
+    const changed = predictions
+      .map(p => ({
+        id: p.id,
+        userId: p.userId,
+        groupId: p.groupId,
+        previous: p.pointsEarned,
+        points: scorePrediction(p, match, groupsById.get(p.groupId)!),
+      }))
+      .filter(p => p.points !== p.previous);
+
+    const rankChanges = await prisma.$transaction(async (tx) => {
+      await this.writePoints(tx, changed);
+      await this.refreshMemberTotals(tx, groupIds);
+      return this.rankGroups(tx, groupIds);
+    }, { timeout: TRANSACTION_TIMEOUT });
+
+    await this.broadcastRankings(groupIds, matchId);
+
+    const matchName = `${match.homeTeam.name} - ${match.awayTeam.name}`;
+    const groupName = (groupId: number) => groupsById.get(groupId)!.name;
+
+    await notificationService.notify([
+      ...changed.map(p => ({
+        userId: p.userId,
+        type: 'points_earned' as const,
+        message: `${p.points} points for your prediction on ${matchName} in ${groupName(p.groupId)}`,
+        data: { matchId, groupId: p.groupId, predictionId: p.id, points: p.points, previousPoints: p.previous },
+      })),
+      // Only the ranks moved by this run, so a retry or a later match doesn't repeat them
+      ...rankChanges
+        .filter(r => r.previousRank !== null)
+        .map(r => ({
+          userId: r.userId,
+          type: 'rank_changed' as const,
+          message: `You moved ${r.rank < r.previousRank! ? 'up' : 'down'} to #${r.rank} in ${groupName(r.groupId)}`,
+          data: { matchId, groupId: r.groupId, rank: r.rank, previousRank: r.previousRank },
+        })),
+    ]);
 
-      await prisma.groupMember.updateMany({
-        where: {
-          groupId: prediction.groupId,
-          userId: prediction.userId,
-        },
-        data: {
-          totalPoints: {
-            increment: points,
-          },
-        },
-      });
+    return {
+      message: 'Points calculated successfully',
+      predictions: predictions.length,
+      predictionsRescored: changed.length,
+      groups: groupIds.length,
+    };
+  }
 
-      const ranking = await prisma.groupRanking.findFirst({
-        where: {
-          groupId: prediction.groupId,
-          userId: prediction.userId,
-        },
-      });
+  /**
+   * Rescore every prediction of a group and rebuild its rankings from scratch
+   */
+  async rebuildGroupRankings(groupId: number, userId: number) {
+    const member = await prisma.groupMember.findFirst({
+      where: { groupId, userId },
+    });
 
-      if (ranking) {
-        const isCorrect = points > 0;
-        await prisma.groupRanking.update({
-          where: { id: ranking.id },
-          data: {
-            totalPoints: { increment: points },
-            totalPredictions: { increment: 1 },
-            correctPredictions: isCorrect ? { increment: 1 } : undefined,
-          },
-        });
-      } else {
-        await prisma.groupRanking.create({
-          data: {
-            groupId: prediction.groupId,
-            userId: prediction.userId,
-            totalPoints: points,
-            totalPredictions: 1,
-            correctPredictions: points > 0 ? 1 : 0,
-          },
-        });
-      }
+    if (!member || !['owner', 'admin'].includes(member.role)) {
+      throw new AppError(403, 'FORBIDDEN', 'Insufficient permissions');
     }
 
-    const groups = [...new Set(predictions.map(p => p.groupId))];
-    for (const groupId of groups) {
-      await this.updateGroupRankings(groupId);
+    return prisma.$transaction(async (tx) => {
+      const result = await this.rescoreGroups(tx, [groupId]);
+      return { groupId, predictionsRescored: result.predictionsRescored };
+    }, { timeout: TRANSACTION_TIMEOUT });
+  }
+
+  /**
+   * Rescore and rebuild the rankings of every group playing a competition
+   */
+  async rebuildCompetitionRankings(competitionId: number) {
+    const competition = await prisma.competition.findUnique({
+      where: { id: competitionId },
+      include: { groups: { select: { id: true } } },
+    });
+
+    if (!competition) {
+      throw new AppError(404, 'NOT_FOUND', 'Competition not found');
     }
 
-    return { message: 'Points calculated successfully' };
+    const groupIds = competition.groups.map(g => g.id);
+
+    return prisma.$transaction(async (tx) => {
+      const result = await this.rescoreGroups(tx, groupIds);
+      return { competitionId, groups: groupIds.length, predictionsRescored: result.predictionsRescored };
+    }, { timeout: TRANSACTION_TIMEOUT });
   }
 
-  private calculatePoints(
-    predictedHome: number,
-    predictedAway: number,
-    actualHome: number,
-    actualAway: number,
-    rules: any[]
-  ): number {
-    let points = 0;
-
-    if (predictedHome === actualHome && predictedAway === actualAway) {
-      const rule = rules.find(r => r.ruleDescription?.includes('Exact score'));
-      points += rule?.points || 5;
-      return points;
+  private async rescoreGroups(tx: Prisma.TransactionClient, groupIds: number[]) {
+    const groups = await tx.group.findMany({
+      where: { id: { in: groupIds } },
+      select: { id: true, jokerMultiplier: true, scoringRules: true },
+    });
+
+    if (groups.length !== groupIds.length) {
+      throw new AppError(404, 'NOT_FOUND', 'Group not found');
     }
 
-    const predictedResult = predictedHome > predictedAway ? 'home' : predictedHome < predictedAway ? 'away' : 'draw';
-    const actualResult = actualHome > actualAway ? 'home' : actualHome < actualAway ? 'away' : 'draw';
+    const groupsById = new Map(groups.map(g => [g.id, g]));
 
-    if (predictedResult === actualResult) {
-      if (actualResult === 'draw') {
-        const rule = rules.find(r => r.ruleDescription?.includes('Correct draw'));
-        points += rule?.points || 3;
-      } else {
-        const rule = rules.find(r => r.ruleDescription?.includes('Correct winner'));
-        points += rule?.points || 3;
-      }
+    const predictions = await tx.prediction.findMany({
+      where: { groupId: { in: groupIds } },
+      include: { match: true },
+    });
+
+    const changed = predictions
+      .map(p => {
+        const { match } = p;
+        const points = match.status === 'finished' && match.homeScore !== null && match.awayScore !== null
+          ? scorePrediction(p, match, groupsById.get(p.groupId)!)
+          : null;
+        return { id: p.id, previous: p.pointsEarned, points };
+      })
+      .filter(p => p.points !== p.previous);
+
+    await this.writePoints(tx, changed);
+    await this.refreshMemberTotals(tx, groupIds);
+    await this.rankGroups(tx, groupIds);
+
+    return { predictionsRescored: changed.length };
+  }
+
+  /**
+   * Store prediction points with a single update
+   */
+  private async writePoints(client: Prisma.TransactionClient, scored: { id: number; points: number | null }[]) {
+    if (scored.length === 0) return;
+
+    await client.$executeRaw`
+      UPDATE "predictions" AS p
+      SET "points_earned" = s.points
+      FROM unnest(${scored.map(s => s.id)}::int[], ${scored.map(s => s.points)}::int[]) AS s(id, points)
+      WHERE p."id" = s.id
+    `;
+  }
+
+  /**
+   * Set member totals to the sum of the points stored on their predictions,
+   * bracket picks and question answers
+   */
+  private async refreshMemberTotals(client: Prisma.TransactionClient, groupIds: number[]) {
+    if (groupIds.length === 0) return;
+
+    await client.$executeRaw`
+      WITH members AS (
+        SELECT "group_id", "user_id" FROM "group_members" WHERE "group_id" = ANY(${groupIds}::int[])
+        UNION
+        SELECT "group_id", "user_id" FROM "group_rankings" WHERE "group_id" = ANY(${groupIds}::int[])
+      ),
+      match_points AS (
+        SELECT "group_id", "user_id",
+          SUM("points_earned") AS points,
+          COUNT(*) AS predictions,
+          COUNT(*) FILTER (WHERE "points_earned" > 0) AS correct
+        FROM "predictions"
+        WHERE "group_id" = ANY(${groupIds}::int[]) AND "points_earned" IS NOT NULL
+        GROUP BY "group_id", "user_id"
+      ),
+      bracket_points AS (
+        SELECT "group_id", "user_id", SUM("points_earned") AS points
+        FROM "bracket_predictions"
+        WHERE "group_id" = ANY(${groupIds}::int[]) AND "points_earned" IS NOT NULL
+        GROUP BY "group_id", "user_id"
+      ),
+      question_points AS (
+        SELECT q."group_id", a."user_id", SUM(a."points_earned") AS points
+        FROM "question_answers" AS a
+        JOIN "group_questions" AS q ON q."id" = a."question_id"
+        WHERE q."group_id" = ANY(${groupIds}::int[]) AND a."points_earned" IS NOT NULL
+        GROUP BY q."group_id", a."user_id"
+      )
+      INSERT INTO "group_rankings" ("group_id", "user_id", "total_points", "total_predictions", "correct_predictions")
+      SELECT m."group_id", m."user_id",
+        COALESCE(mp.points, 0) + COALESCE(bp.points, 0) + COALESCE(qp.points, 0),
+        COALESCE(mp.predictions, 0),
+        COALESCE(mp.correct, 0)
+      FROM members AS m
+      LEFT JOIN match_points AS mp ON mp."group_id" = m."group_id" AND mp."user_id" = m."user_id"
+      LEFT JOIN bracket_points AS bp ON bp."group_id" = m."group_id" AND bp."user_id" = m."user_id"
+      LEFT JOIN question_points AS qp ON qp."group_id" = m."group_id" AND qp."user_id" = m."user_id"
+      ON CONFLICT ("group_id", "user_id") DO UPDATE SET
+        "total_points" = EXCLUDED."total_points",
+        "total_predictions" = EXCLUDED."total_predictions",
+        "correct_predictions" = EXCLUDED."correct_predictions"
+    `;
+
+    await client.$executeRaw`
+      UPDATE "group_members" AS gm
+      SET "total_points" = r."total_points"
+      FROM "group_rankings" AS r
+      WHERE r."group_id" = gm."group_id"
+        AND r."user_id" = gm."user_id"
+        AND gm."group_id" = ANY(${groupIds}::int[])
+        AND gm."total_points" <> r."total_points"
+    `;
+  }
+
+  /**
+   * Rank members by points, tied members share a rank. The previous rank is
+   * only moved when the rank changes, so a recalculation keeps the last movement.
+   * Returns the members whose rank changed.
+   */
+  private async rankGroups(client: Prisma.TransactionClient, groupIds: number[]): Promise<RankChange[]> {
+    if (groupIds.length === 0) return [];
+
+    return client.$queryRaw<RankChange[]>`
+      UPDATE "group_rankings" AS r
+      SET "previous_rank" = r."rank", "rank" = ranked.position
+      FROM (
+        SELECT "id", RANK() OVER (PARTITION BY "group_id" ORDER BY "total_points" DESC) AS position
+        FROM "group_rankings"
+        WHERE "group_id" = ANY(${groupIds}::int[])
+      ) AS ranked
+      WHERE r."id" = ranked."id" AND r."rank" IS DISTINCT FROM ranked.position
+      RETURNING r."group_id" AS "groupId", r."user_id" AS "userId", r."rank", r."previous_rank" AS "previousRank"
+    `;
+  }
+
+  /**
+   * A member can play a limited number of jokers per competition or per matchday,
+   * depending on the group settings. Run it in the transaction saving the joker:
+   * the membership row stays locked until then, so concurrent requests of the
+   * member are counted one after the other.
+   */
+  private async checkJokerAllowance(
+    client: Prisma.TransactionClient,
+    groupId: number,
+    userId: number,
+    match: { matchday: number | null; scheduledDate: Date }
+  ) {
+    await client.$queryRaw`
+      SELECT 1 FROM "group_members" WHERE "group_id" = ${groupId} AND "user_id" = ${userId} FOR UPDATE
+    `;
+
+    const group = await client.group.findUnique({
+      where: { id: groupId },
+    });
+
+    if (!group || group.jokerAllowance === 0) {
+      throw new AppError(400, 'BAD_REQUEST', 'Jokers are not enabled in this group');
     }
 
-    return points;
+    const used = await client.prediction.count({
+      where: {
+        groupId,
+        userId,
+        isJoker: true,
+        match: group.jokerScope === 'matchday' ? getMatchdayFilter(match) : undefined,
+      },
+    });
+
+    if (used >= group.jokerAllowance) {
+      const scope = group.jokerScope === 'matchday' ? 'this matchday' : 'this competition';
+      throw new AppError(400, 'BAD_REQUEST', `No jokers left for ${scope}`);
+    }
   }
 
-  private async updateGroupRankings(groupId: number) {
+  /**
+   * Push the new rankings to the group streams after a match was scored
+   */
+  private async broadcastRankings(groupIds: number[], matchId: number) {
     const rankings = await prisma.groupRanking.findMany({
-      where: { groupId },
-      orderBy: { totalPoints: 'desc' },
+      where: { groupId: { in: groupIds } },
+      select: {
+        groupId: true,
+        totalPoints: true,
+        rank: true,
+        previousRank: true,
+        user: {
+          select: {
+            id: true,
+            username: true,
+          },
+        },
+      },
+      orderBy: { rank: 'asc' },
     });
 
-    let currentRank = 1;
-    for (let i = 0; i < rankings.length; i++) {
-      const ranking = rankings[i];
-      const previousRank = ranking.rank;
-
-      if (i > 0 && rankings[i - 1].totalPoints === ranking.totalPoints) {
-        await prisma.groupRanking.update({
-          where: { id: ranking.id },
-          data: {
-            rank: currentRank,
-            previousRank,
-          },
-        });
-      } else {
-        currentRank = i + 1;
-        await prisma.groupRanking.update({
-          where: { id: ranking.id },
-          data: {
-            rank: currentRank,
-            previousRank,
-          },
-        });
-      }
-    }
+    groupIds.forEach(groupId => {
+      sseService.broadcastToGroup(groupId, 'rankings-update', {
+        matchId,
+        rankings: rankings.filter(r => r.groupId === groupId),
+      });
+    });
+  }
+
+  /**
+   * Rebuild the totals and ranks of groups from the points stored on their
+   * predictions, bracket picks and question answers. Run it in the
+   * transaction that stored the points, so totals never drift from them.
+   */
+  async refreshGroupTotals(client: Prisma.TransactionClient, groupIds: number[]) {
+    await this.refreshMemberTotals(client, groupIds);
+    return this.rankGroups(client, groupIds);
   }
 }
@@ -0,0 +1,280 @@
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { CompetitionService } from './competition.service';
+import { PredictionService } from './prediction.service';
+
+export class QuestionService {
+  private competitionService = new CompetitionService();
+  private predictionService = new PredictionService();
+
+  async getQuestions(groupId: number, userId: number) {
+    await this.checkMembership(groupId, userId);
+
+    const questions = await prisma.groupQuestion.findMany({
+      where: { groupId },
+      include: {
+        answers: {
+          include: {
+            user: {
+              select: {
+                id: true,
+                username: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: { locksAt: 'asc' },
+    });
+
+    // Other members' answers and the correct answer stay hidden until the question locks
+    const now = new Date();
+    return questions.map(question => question.locksAt <= now
+      ? question
+      : {
+          ...question,
+          correctAnswer: null,
+          answers: question.answers.filter(a => a.userId === userId),
+        });
+  }
+
+  async createQuestion(groupId: number, userId: number, data: {
+    type: string;
+    question: string;
+    options: string[];
+    points: number;
+    locksAt: Date;
+  }) {
+    await this.checkPermission(groupId, userId, ['owner', 'admin']);
+
+    const question = await prisma.groupQuestion.create({
+      data: {
+        groupId,
+        type: data.type,
+        question: data.question,
+        options: data.type === 'custom' ? data.options : [],
+        points: data.points,
+        locksAt: data.locksAt,
+      },
+    });
+
+    return question;
+  }
+
+  async updateQuestion(groupId: number, questionId: number, userId: number, data: {
+    question?: string;
+    options?: string[];
+    points?: number;
+    locksAt?: Date;
+  }) {
+    await this.checkPermission(groupId, userId, ['owner', 'admin']);
+    const question = await this.findQuestion(groupId, questionId);
+
+    if (question.resolvedAt) {
+      throw new AppError(400, 'BAD_REQUEST', 'Question has already been resolved');
+    }
+
+    // Moving the lock or the options of a locked question would reopen or change it after the fact
+    if (question.locksAt <= new Date() && (data.locksAt !== undefined || data.options !== undefined)) {
+      throw new AppError(400, 'BAD_REQUEST', 'The lock date and options of a locked question cannot be changed');
+    }
+
+    if (data.options !== undefined) {
+      if (question.type !== 'custom') {
+        throw new AppError(400, 'BAD_REQUEST', 'Only custom questions have options');
+      }
+      if (data.options.length < 2) {
+        throw new AppError(400, 'BAD_REQUEST', 'Custom questions need at least two options');
+      }
+    }
+
+    const updated = await prisma.groupQuestion.update({
+      where: { id: questionId },
+      data,
+    });
+
+    return updated;
+  }
+
+  async deleteQuestion(groupId: number, questionId: number, userId: number) {
+    await this.checkPermission(groupId, userId, ['owner', 'admin']);
+    await this.findQuestion(groupId, questionId);
+
+    // Deleting the answers takes back the points already awarded for this question
+    const scored = await prisma.questionAnswer.count({
+      where: { questionId, pointsEarned: { not: null } },
+    });
+
+    await prisma.$transaction(async (tx) => {
+      await tx.groupQuestion.delete({
+        where: { id: questionId },
+      });
+
+      if (scored > 0) {
+        await this.predictionService.refreshGroupTotals(tx, [groupId]);
+      }
+    });
+
+    return { message: 'Question deleted successfully' };
+  }
+
+  async answerQuestion(groupId: number, questionId: number, userId: number, answer: string) {
+    await this.checkMembership(groupId, userId);
+    const question = await this.findQuestion(groupId, questionId);
+
+    if (question.locksAt <= new Date() || question.resolvedAt) {
+      throw new AppError(400, 'BAD_REQUEST', 'Question is locked');
+    }
+
+    const normalized = await this.normalizeAnswer(question, answer);
+
+    const saved = await prisma.questionAnswer.upsert({
+      where: { questionId_userId: { questionId, userId } },
+      create: { questionId, userId, answer: normalized },
+      update: { answer: normalized, answeredAt: new Date() },
+    });
+
+    return saved;
+  }
+
+  /**
+   * Set the correct answer and score every answer. Team questions can be
+   * resolved from the competition standings when no answer is given.
+   * Resolving again replaces the points of the previous resolution.
+   */
+  async resolveQuestion(groupId: number, questionId: number, userId: number, correctAnswer?: string) {
+    await this.checkPermission(groupId, userId, ['owner', 'admin']);
+    const question = await this.findQuestion(groupId, questionId);
+
+    // Members can still answer until the lock
+    if (question.locksAt > new Date()) {
+      throw new AppError(400, 'BAD_REQUEST', 'Questions can only be resolved once they lock');
+    }
+
+    const answer = await this.normalizeAnswer(question, correctAnswer ?? await this.getAnswerFromStandings(question));
+
+    await prisma.$transaction(async (tx) => {
+      await tx.groupQuestion.update({
+        where: { id: questionId },
+        data: { correctAnswer: answer, resolvedAt: new Date() },
+      });
+
+      await tx.questionAnswer.updateMany({
+        where: { questionId, answer },
+        data: { pointsEarned: question.points },
+      });
+
+      await tx.questionAnswer.updateMany({
+        where: { questionId, answer: { not: answer } },
+        data: { pointsEarned: 0 },
+      });
+
+      await this.predictionService.refreshGroupTotals(tx, [groupId]);
+    });
+
+    return prisma.groupQuestion.findUnique({
+      where: { id: questionId },
+      include: { answers: true },
+    });
+  }
+
+  private async getAnswerFromStandings(question: { groupId: number; type: string }) {
+    if (question.type === 'custom') {
+      throw new AppError(400, 'BAD_REQUEST', 'Custom questions must be resolved with a correct answer');
+    }
+
+    const group = await prisma.group.findUnique({
+      where: { id: question.groupId },
+    });
+
+    // The playoff final decides the champion when there is one
+    if (question.type === 'champion') {
+      const final = await prisma.playoffSeries.findFirst({
+        where: { competitionId: group!.competitionId, nextSeriesId: null },
+        orderBy: { round: 'desc' },
+      });
+
+      if (final) {
+        if (!final.winnerTeamId) {
+          throw new AppError(400, 'BAD_REQUEST', 'The playoff final is not finished');
+        }
+        return String(final.winnerTeamId);
+      }
+    }
+
+    const { standings } = await this.competitionService.getCompetitionStandings(group!.competitionId);
+    const rows = standings as { teamId: number; goalsFor: number }[];
+
+    if (rows.length === 0) {
+      throw new AppError(400, 'BAD_REQUEST', 'Competition has no standings yet');
+    }
+
+    if (question.type === 'top_scoring_team') {
+      const top = rows.reduce((best, row) => (row.goalsFor > best.goalsFor ? row : best));
+      return String(top.teamId);
+    }
+
+    const row = question.type === 'last_place' ? rows[rows.length - 1] : rows[0];
+    return String(row.teamId);
+  }
+
+  /**
+   * Check an answer and return it the way it is stored and compared.
+   * Team answers are stored as the team id, so "07" or " 7" match "7".
+   */
+  private async normalizeAnswer(question: { groupId: number; type: string; options: string[] }, answer: string) {
+    if (question.type === 'custom') {
+      if (!question.options.includes(answer)) {
+        throw new AppError(400, 'BAD_REQUEST', 'Answer must be one of the question options');
+      }
+      return answer;
+    }
+
+    const group = await prisma.group.findUnique({
+      where: { id: question.groupId },
+    });
+
+    const teamId = Number(answer);
+    const team = Number.isInteger(teamId)
+      ? await prisma.team.findFirst({ where: { id: teamId, competitionId: group!.competitionId } })
+      : null;
+
+    if (!team) {
+      throw new AppError(400, 'BAD_REQUEST', 'Answer must be a team of the group competition');
+    }
+
+    return String(team.id);
+  }
+
+  private async findQuestion(groupId: number, questionId: number) {
+    const question = await prisma.groupQuestion.findFirst({
+      where: { id: questionId, groupId },
+    });
+
+    if (!question) {
+      throw new AppError(404, 'NOT_FOUND', 'Question not found');
+    }
+
+    return question;
+  }
+
+  private async checkMembership(groupId: number, userId: number) {
+    const member = await prisma.groupMember.findFirst({
+      where: { groupId, userId },
+    });
+
+    if (!member) {
+      throw new AppError(403, 'FORBIDDEN', 'Not a member of this group');
+    }
+  }
+
+  private async checkPermission(groupId: number, userId: number, allowedRoles: string[]) {
+    const member = await prisma.groupMember.findFirst({
+      where: { groupId, userId },
+    });
+
+    if (!member || !allowedRoles.includes(member.role)) {
+      throw new AppError(403, 'FORBIDDEN', 'Insufficient permissions');
+    }
+  }
+}
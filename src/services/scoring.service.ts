@@ -0,0 +1,27 @@
+import { jobService } from './job.service';
+import { PredictionService } from './prediction.service';
+
+export const SCORE_MATCH_JOB = 'score-match';
+
+/**
+ * Runs match scoring as a background job so score updates return right away.
+ * A match already waiting to be scored is not queued twice.
+ */
+export class ScoringService {
+  private predictionService = new PredictionService();
+
+  /**
+   * Queue the scoring of a finished match
+   */
+  async enqueueMatch(matchId: number): Promise<void> {
+    await jobService.enqueue(SCORE_MATCH_JOB, { matchId }, { key: `${SCORE_MATCH_JOB}:${matchId}` });
+  }
+
+  async scoreMatch(payload: { matchId: number }): Promise<void> {
+    const result = await this.predictionService.calculatePointsForMatch(payload.matchId);
+    console.log(`Scored ${result.predictions} predictions in ${result.groups} groups for match ${payload.matchId}`);
+  }
+}
+
+// Singleton instance
+export const scoringService = new ScoringService();
@@ -1,34 +1,147 @@
 import { Response } from 'express';
+import { config } from '../config/env';
+import { RingBuffer } from '../utils/ringBuffer';
+import { Broker, BrokerMessage, createBroker } from './broker.service';
 
 export interface SSEClient {
   id: string;
   res: Response;
-  matchIds?: number[];
+  topics: Set<string>;
+  userId?: number;
+  expiryTimer?: NodeJS.Timeout;
 }
 
+export interface LiveEvent {
+  id: number;
+  event: string;
+  topics: string[];
+  data: any;
+}
+
+export type LiveEventListener = (event: LiveEvent) => void;
+
+// Longer timer delays overflow and fire at once
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Topics clients subscribe to. Every score update and status change is
+ * published to the match, its competition and the catch-all matches topic.
+ */
+export const ALL_MATCHES_TOPIC = 'matches';
+export const matchTopic = (matchId: number) => `match:${matchId}`;
+export const competitionTopic = (competitionId: number) => `competition:${competitionId}`;
+export const groupTopic = (groupId: number) => `group:${groupId}`;
+export const userTopic = (userId: number) => `user:${userId}`;
+
+/**
+ * Events are published through the broker and delivered to the local clients
+ * when the broker hands them back, so every instance sees every event.
+ * Other transports receive the same numbered events through onEvent.
+ */
 export class SSEService {
   private clients: Map<string, SSEClient> = new Map();
+  private history: RingBuffer<LiveEvent>;
+  private lastEventId = 0;
+  // Spreads the ids of events published in the same millisecond by different instances
+  private idOffset = Math.floor(Math.random() * 1000);
+  // Events older than this id were published before this instance listened
+  private historyStartId = Infinity;
+  // Newest id dropped from the buffer, once it is full
+  private droppedUpToId: number | null = null;
+  private listeners: LiveEventListener[] = [];
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private subscription: Promise<void> | null = null;
+
+  constructor(
+    private broker: Broker,
+    private options: { retry: number; heartbeatInterval: number; bufferSize: number } = config.sse
+  ) {
+    this.history = new RingBuffer(options.bufferSize);
+  }
+
+  /**
+   * Start receiving the events published by every instance
+   */
+  start(): Promise<void> {
+    if (!this.subscription) {
+      this.historyStartId = Date.now() * 1000;
+      this.subscription = this.broker.subscribe(message => this.deliver(message));
+    }
+
+    return this.subscription;
+  }
+
+  /**
+   * Receive every event delivered on this instance, after it got its id.
+   * Returns a function removing the listener.
+   */
+  onEvent(listener: LiveEventListener): () => void {
+    this.listeners.push(listener);
+    this.start().catch(error => console.error('Failed to subscribe to live events:', error));
+
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * The buffered events newer than lastEventId on at least one of the topics.
+   * `missed` is true when some newer events were already dropped from the buffer,
+   * or were published before this instance started listening, as after a restart.
+   */
+  getEventsSince(lastEventId: number, topics: Set<string>): { events: LiveEvent[]; missed: boolean } {
+    const events = this.history.toArray();
+    const knownSince = this.droppedUpToId ?? this.historyStartId;
+
+    return {
+      events: events.filter(e => e.id > lastEventId && e.topics.some(topic => topics.has(topic))),
+      missed: lastEventId < knownSince,
+    };
+  }
 
   /**
-   * Register a new SSE client
+   * Register a new SSE client subscribed to the given topics. A client
+   * reconnecting with the id of the last event it received gets the
+   * events it missed, as long as they are still buffered. Authenticated
+   * streams are closed when their access token expires, like WebSockets.
    */
-  addClient(clientId: string, res: Response, matchIds?: number[]): void {
+  addClient(clientId: string, res: Response, topics: string[], options: {
+    userId?: number;
+    message?: string;
+    lastEventId?: number;
+    // Expiry of the access token, in seconds
+    expiresAt?: number;
+  } = {}): void {
     res.setHeader('Content-Type', 'text/event-stream');
     res.setHeader('Cache-Control', 'no-cache');
     res.setHeader('Connection', 'keep-alive');
     res.setHeader('X-Accel-Buffering', 'no');
 
+    // Tell the browser how long to wait before reconnecting
+    res.write(`retry: ${this.options.retry}\n\n`);
+
     // Send initial connection message
     this.sendToClient(res, 'connected', {
-      message: 'Connected to live scores',
+      message: options.message ?? 'Connected to live scores',
       timestamp: new Date().toISOString(),
     });
 
-    this.clients.set(clientId, { id: clientId, res, matchIds });
+    const client: SSEClient = { id: clientId, res, topics: new Set(topics), userId: options.userId };
+
+    if (options.lastEventId !== undefined) {
+      this.replay(client, options.lastEventId);
+    }
+
+    this.clients.set(clientId, client);
+    this.scheduleExpiry(client, options.expiresAt);
+    this.startHeartbeat();
+    this.start().catch(error => console.error('Failed to subscribe to live events:', error));
 
     // Remove client on connection close
     res.on('close', () => {
+      clearTimeout(client.expiryTimer);
       this.clients.delete(clientId);
+      this.stopHeartbeatWhenIdle();
       console.log(`Client ${clientId} disconnected. Active clients: ${this.clients.size}`);
     });
 
@@ -36,53 +149,154 @@ export class SSEService {
   }
 
   /**
-   * Send a message to a specific client
+   * End the stream when the token expires, the client reconnects with a fresh one
+   */
+  private scheduleExpiry(client: SSEClient, expiresAt?: number): void {
+    if (!expiresAt) return;
+
+    const delay = Math.min(expiresAt * 1000 - Date.now(), MAX_TIMER_DELAY);
+
+    client.expiryTimer = setTimeout(() => {
+      if (expiresAt * 1000 > Date.now()) {
+        this.scheduleExpiry(client, expiresAt);
+        return;
+      }
+
+      this.sendToClient(client.res, 'token-expired', {
+        message: 'Access token expired, reconnect with a new one',
+        timestamp: new Date().toISOString(),
+      });
+      this.removeClient(client.id);
+    }, Math.max(delay, 0));
+  }
+
+  /**
+   * Send a message to a specific client. Only published events carry an id,
+   * so connection messages and heartbeats don't move the client's Last-Event-ID.
    */
-  private sendToClient(res: Response, event: string, data: any): void {
+  private sendToClient(res: Response, event: string, data: any, id?: number): void {
+    if (id !== undefined) {
+      res.write(`id: ${id}\n`);
+    }
     res.write(`event: ${event}\n`);
     res.write(`data: ${JSON.stringify(data)}\n\n`);
   }
 
   /**
-   * Broadcast score update to all clients interested in a specific match
+   * Send the buffered events newer than lastEventId. When some of them were
+   * already dropped from the buffer, the client is told to reload its state.
    */
-  broadcastScoreUpdate(matchId: number, scoreData: any): void {
-    let sentCount = 0;
+  private replay(client: SSEClient, lastEventId: number): void {
+    const { events, missed } = this.getEventsSince(lastEventId, client.topics);
+
+    if (missed) {
+      this.sendToClient(client.res, 'resync', {
+        message: 'Some events were missed, reload the current state',
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    events.forEach(e => this.sendToClient(client.res, e.event, e.data, e.id));
+  }
+
+  /**
+   * Publish an event for the clients subscribed to at least one of the topics, on every instance
+   */
+  publish(topics: string[], event: string, data: any): void {
+    this.broker
+      .publish({ id: this.nextEventId(), topics, event, data: { ...data, timestamp: new Date().toISOString() } })
+      .catch(error => console.error(`Failed to publish ${event} event:`, error));
+  }
+
+  /**
+   * Buffer an event received from the broker, then send it to the local subscribers.
+   * The event keeps the id given by the instance that published it, so a client
+   * can resume on any instance. Only messages published without one get a local id.
+   */
+  private deliver(message: BrokerMessage): void {
+    const entry: LiveEvent = { ...message, id: message.id ?? this.nextEventId() };
+    this.lastEventId = Math.max(this.lastEventId, entry.id);
+    const dropped = this.history.push(entry);
+    if (dropped) {
+      this.droppedUpToId = Math.max(this.droppedUpToId ?? 0, dropped.id);
+    }
 
     this.clients.forEach((client) => {
-      // Send to all clients or only those subscribed to this match
-      if (!client.matchIds || client.matchIds.includes(matchId)) {
-        this.sendToClient(client.res, 'score-update', {
-          matchId,
-          ...scoreData,
-          timestamp: new Date().toISOString(),
-        });
-        sentCount++;
+      if (entry.topics.some(topic => client.topics.has(topic))) {
+        this.sendToClient(client.res, entry.event, entry.data, entry.id);
       }
     });
 
-    console.log(`Score update broadcasted to ${sentCount} clients for match ${matchId}`);
+    // A member who left may be connected to any instance
+    if (entry.event === 'member-left') {
+      this.closeGroupStreams(entry.data.groupId, entry.data.userId);
+    }
+
+    this.listeners.forEach(listener => listener(entry));
+  }
+
+  /**
+   * Ids follow the clock in microseconds, so they keep increasing across
+   * restarts, and never go below an id already received from another instance
+   */
+  private nextEventId(): number {
+    this.lastEventId = Math.max(this.lastEventId + 1, Date.now() * 1000 + this.idOffset);
+    return this.lastEventId;
+  }
+
+  /**
+   * Broadcast score update to all clients interested in a specific match
+   */
+  broadcastScoreUpdate(matchId: number, competitionId: number, scoreData: any): void {
+    this.publish(
+      [ALL_MATCHES_TOPIC, matchTopic(matchId), competitionTopic(competitionId)],
+      'score-update',
+      { matchId, ...scoreData }
+    );
+
+    console.log(`Score update published for match ${matchId}`);
   }
 
   /**
    * Broadcast match status change (scheduled -> live -> finished)
    */
-  broadcastMatchStatusChange(matchId: number, status: string, matchData: any): void {
-    let sentCount = 0;
+  broadcastMatchStatusChange(matchId: number, competitionId: number, status: string, matchData: any): void {
+    this.publish(
+      [ALL_MATCHES_TOPIC, matchTopic(matchId), competitionTopic(competitionId)],
+      'match-status',
+      { matchId, status, ...matchData }
+    );
 
+    console.log(`Match status change published for match ${matchId}`);
+  }
+
+  /**
+   * Broadcast a goal, penalty or period change recorded on a match, or its correction
+   */
+  broadcastMatchEvent(matchId: number, competitionId: number, event: string, data: any): void {
+    this.publish(
+      [ALL_MATCHES_TOPIC, matchTopic(matchId), competitionTopic(competitionId)],
+      event,
+      { matchId, ...data }
+    );
+  }
+
+  /**
+   * Send an event to the members following a group stream
+   */
+  broadcastToGroup(groupId: number, event: string, data: any): void {
+    this.publish([groupTopic(groupId)], event, { groupId, ...data });
+  }
+
+  /**
+   * Close the group streams of a user who is no longer a member
+   */
+  private closeGroupStreams(groupId: number, userId: number): void {
     this.clients.forEach((client) => {
-      if (!client.matchIds || client.matchIds.includes(matchId)) {
-        this.sendToClient(client.res, 'match-status', {
-          matchId,
-          status,
-          ...matchData,
-          timestamp: new Date().toISOString(),
-        });
-        sentCount++;
+      if (client.userId === userId && client.topics.has(groupTopic(groupId))) {
+        this.removeClient(client.id);
       }
     });
-
-    console.log(`Match status change broadcasted to ${sentCount} clients for match ${matchId}`);
   }
 
   /**
@@ -111,14 +325,26 @@ export class SSEService {
     if (client) {
       client.res.end();
       this.clients.delete(clientId);
+      this.stopHeartbeatWhenIdle();
+    }
+  }
+
+  /**
+   * Heartbeats only run while clients are connected, so an idle process has no timer
+   */
+  private startHeartbeat(): void {
+    if (this.heartbeatTimer) return;
+
+    this.heartbeatTimer = setInterval(() => this.sendHeartbeat(), this.options.heartbeatInterval);
+  }
+
+  private stopHeartbeatWhenIdle(): void {
+    if (this.heartbeatTimer && this.clients.size === 0) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
     }
   }
 }
 
 // Singleton instance
-export const sseService = new SSEService();
-
-// Send heartbeat every 30 seconds to keep connections alive
-setInterval(() => {
-  sseService.sendHeartbeat();
-}, 30000);
+export const sseService = new SSEService(createBroker(config.events.broker));
@@ -1,5 +1,6 @@
 import prisma from '../config/database';
 import { AppError } from '../middleware/errorHandler';
+import { hideJoker } from '../utils/joker';
 
 export class UserService {
   async getUsers(page = 1, limit = 20) {
@@ -53,6 +54,42 @@ export class UserService {
     return user;
   }
 
+  /**
+   * Change the platform role of a user. The last admin cannot be demoted.
+   */
+  async updateRole(userId: number, role: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new AppError(404, 'NOT_FOUND', 'User not found');
+    }
+
+    if (user.role === 'admin' && role !== 'admin') {
+      const admins = await prisma.user.count({
+        where: { role: 'admin' },
+      });
+
+      if (admins <= 1) {
+        throw new AppError(400, 'BAD_REQUEST', 'Cannot demote the last admin');
+      }
+    }
+
+    const updated = await prisma.user.update({
+      where: { id: userId },
+      data: { role },
+      select: {
+        id: true,
+        username: true,
+        email: true,
+        role: true,
+      },
+    });
+
+    return updated;
+  }
+
   async getUserStatistics(userId: number) {
     const user = await prisma.user.findUnique({
       where: { id: userId },
@@ -192,7 +229,7 @@ export class UserService {
     ]);
 
     return {
-      predictions,
+      predictions: predictions.map(p => hideJoker(p)),
       meta: {
         page: pageNumber,
         limit: limitNumber,
@@ -0,0 +1,400 @@
+import { randomUUID } from 'crypto';
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { RawData, WebSocket, WebSocketServer } from 'ws';
+import { config } from '../config/env';
+import { AppError } from '../middleware/errorHandler';
+import { JWTPayload, verifyToken } from '../utils/jwt';
+import { WebSocketMessage, webSocketMessageSchema } from '../validators/websocket.validator';
+import { GroupService } from './group.service';
+import { competitionTopic, groupTopic, LiveEvent, matchTopic, SSEService, sseService, userTopic } from './sse.service';
+
+export const WEBSOCKET_PATH = '/api/ws';
+
+// Clients only send small control messages
+const MAX_MESSAGE_SIZE = 16 * 1024;
+
+// Close code sent when the access token expires without being renewed
+const TOKEN_EXPIRED_CODE = 4001;
+
+// Longer timer delays overflow and fire at once
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+interface WebSocketClient {
+  id: string;
+  socket: WebSocket;
+  userId: number;
+  // Topics of each subscription, keyed like match:1 or group:2
+  subscriptions: Map<string, string[]>;
+  alive: boolean;
+  // Events were dropped because the client was not reading fast enough
+  lagging: boolean;
+  expiryTimer: NodeJS.Timeout | null;
+}
+
+/**
+ * Serves the live events over WebSocket. Clients authenticate when connecting,
+ * then subscribe to matches and groups. Events come from SSEService, so they
+ * carry the same ids and can be replayed the same way.
+ */
+export class WebSocketService {
+  private server: WebSocketServer | null = null;
+  private clients: Map<string, WebSocketClient> = new Map();
+  private pingTimer: NodeJS.Timeout | null = null;
+  private groupService = new GroupService();
+
+  constructor(
+    private events: SSEService = sseService,
+    private options: { pingInterval: number; maxBufferedBytes: number; maxSubscriptions: number } = config.websocket
+  ) {}
+
+  /**
+   * Accept WebSocket connections on the HTTP server
+   */
+  attach(httpServer: Server): void {
+    if (this.server) return;
+
+    this.server = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_SIZE });
+    this.events.onEvent(event => this.deliver(event));
+
+    httpServer.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+
+      if (url.pathname !== WEBSOCKET_PATH) {
+        this.reject(socket, 404, 'Not Found');
+        return;
+      }
+
+      const user = this.authenticate(req, url);
+      if (!user) {
+        this.reject(socket, 401, 'Unauthorized');
+        return;
+      }
+
+      this.server!.handleUpgrade(req, socket, head, ws => this.addClient(ws, user));
+    });
+  }
+
+  /**
+   * Browsers cannot set headers on a WebSocket, so the token can also be passed as access_token
+   */
+  private authenticate(req: IncomingMessage, url: URL): JWTPayload | null {
+    const authHeader = req.headers.authorization;
+    const token = authHeader && authHeader.startsWith('Bearer ')
+      ? authHeader.substring(7)
+      : url.searchParams.get('access_token');
+
+    return token ? this.verify(token) : null;
+  }
+
+  private verify(token: string): JWTPayload | null {
+    try {
+      return verifyToken(token);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private reject(socket: Duplex, status: number, message: string): void {
+    socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+    socket.destroy();
+  }
+
+  private addClient(socket: WebSocket, user: JWTPayload): void {
+    const client: WebSocketClient = {
+      id: randomUUID(),
+      socket,
+      userId: user.userId,
+      // Users always receive their own notifications
+      subscriptions: new Map([['user', [userTopic(user.userId)]]]),
+      alive: true,
+      lagging: false,
+      expiryTimer: null,
+    };
+
+    this.clients.set(client.id, client);
+    this.startPing();
+    this.scheduleExpiry(client, user.exp);
+
+    socket.on('message', (data: RawData) => {
+      this.handleMessage(client, data).catch(error => console.error('Failed to handle WebSocket message:', error));
+    });
+    socket.on('pong', () => {
+      client.alive = true;
+    });
+    socket.on('error', (error) => {
+      console.error(`WebSocket client ${client.id} failed:`, error.message);
+    });
+    socket.on('close', () => {
+      if (client.expiryTimer) clearTimeout(client.expiryTimer);
+      this.clients.delete(client.id);
+      this.stopPingWhenIdle();
+      console.log(`WebSocket client ${client.id} disconnected. Active clients: ${this.clients.size}`);
+    });
+
+    this.send(client, {
+      type: 'connected',
+      message: 'Connected to live events',
+      timestamp: new Date().toISOString(),
+    });
+
+    console.log(`WebSocket client ${client.id} connected. Active clients: ${this.clients.size}`);
+  }
+
+  private async handleMessage(client: WebSocketClient, data: RawData): Promise<void> {
+    let message: WebSocketMessage;
+
+    try {
+      const result = webSocketMessageSchema.safeParse(JSON.parse(data.toString()));
+      if (!result.success) {
+        this.sendError(client, 'VALIDATION_ERROR', result.error.issues[0].message);
+        return;
+      }
+      message = result.data;
+    } catch (error) {
+      this.sendError(client, 'BAD_REQUEST', 'Messages must be JSON');
+      return;
+    }
+
+    try {
+      switch (message.type) {
+        case 'subscribe':
+          await this.subscribe(client, message);
+          break;
+        case 'unsubscribe':
+          this.unsubscribe(client, message);
+          break;
+        case 'authenticate':
+          this.renew(client, message.token);
+          break;
+        case 'ping':
+          this.send(client, { type: 'pong', timestamp: new Date().toISOString() });
+          break;
+      }
+    } catch (error) {
+      if (error instanceof AppError) {
+        this.sendError(client, error.code, error.message);
+      } else {
+        console.error('WebSocket request failed:', error);
+        this.sendError(client, 'INTERNAL_ERROR', 'An unexpected error occurred');
+      }
+    }
+  }
+
+  /**
+   * The connection is closed when its access token expires, unless the client
+   * sends a fresh token for the same user before then
+   */
+  private scheduleExpiry(client: WebSocketClient, exp?: number): void {
+    if (client.expiryTimer) clearTimeout(client.expiryTimer);
+    if (!exp) return;
+
+    const delay = Math.min(exp * 1000 - Date.now(), MAX_TIMER_DELAY);
+
+    client.expiryTimer = setTimeout(() => {
+      if (exp * 1000 > Date.now()) {
+        this.scheduleExpiry(client, exp);
+        return;
+      }
+
+      this.sendError(client, 'TOKEN_EXPIRED', 'Access token expired, reconnect with a new one');
+      client.socket.close(TOKEN_EXPIRED_CODE, 'Token expired');
+    }, Math.max(delay, 0));
+  }
+
+  private renew(client: WebSocketClient, token: string): void {
+    const user = this.verify(token);
+
+    if (!user) {
+      throw new AppError(401, 'UNAUTHORIZED', 'Invalid or expired token');
+    }
+
+    if (user.userId !== client.userId) {
+      throw new AppError(403, 'FORBIDDEN', 'Token belongs to another user');
+    }
+
+    this.scheduleExpiry(client, user.exp);
+    this.send(client, {
+      type: 'authenticated',
+      expiresAt: user.exp ? new Date(user.exp * 1000).toISOString() : null,
+    });
+  }
+
+  /**
+   * Add a match or group subscription. Groups are for members only and also
+   * follow the matches of their competition, like the group SSE stream.
+   */
+  private async subscribe(client: WebSocketClient, message: {
+    matchId?: number;
+    groupId?: number;
+    lastEventId?: number;
+  }): Promise<void> {
+    let key: string;
+    let topics: string[];
+
+    this.checkSubscriptionLimit(client, message);
+
+    if (message.groupId !== undefined) {
+      const group = await this.groupService.checkStreamAccess(message.groupId, client.userId);
+      key = groupTopic(group.id);
+      topics = [groupTopic(group.id), competitionTopic(group.competitionId)];
+    } else {
+      key = matchTopic(message.matchId!);
+      topics = [matchTopic(message.matchId!)];
+    }
+
+    // The socket may have closed, or other subscriptions were added, while checking the membership
+    if (!this.clients.has(client.id)) return;
+    this.checkSubscriptionLimit(client, message);
+
+    const previousTopics = this.getTopics(client);
+    client.subscriptions.set(key, topics);
+
+    this.send(client, { type: 'subscribed', matchId: message.matchId, groupId: message.groupId });
+
+    if (message.lastEventId !== undefined) {
+      const { events, missed } = this.events.getEventsSince(message.lastEventId, new Set(topics));
+
+      if (missed) {
+        this.sendResync(client);
+      }
+
+      // Events matching an existing subscription were already sent
+      events
+        .filter(event => !event.topics.some(topic => previousTopics.has(topic)))
+        .forEach(event => this.sendEvent(client, event));
+    }
+  }
+
+  /**
+   * Each subscription is matched against every event, so a client can only hold a few
+   */
+  private checkSubscriptionLimit(client: WebSocketClient, message: { matchId?: number; groupId?: number }): void {
+    const key = message.groupId !== undefined ? groupTopic(message.groupId) : matchTopic(message.matchId!);
+    // The user's own subscription is not counted
+    const count = client.subscriptions.size - 1;
+
+    if (!client.subscriptions.has(key) && count >= this.options.maxSubscriptions) {
+      throw new AppError(400, 'BAD_REQUEST', `At most ${this.options.maxSubscriptions} subscriptions per connection`);
+    }
+  }
+
+  private unsubscribe(client: WebSocketClient, message: { matchId?: number; groupId?: number }): void {
+    const key = message.groupId !== undefined ? groupTopic(message.groupId) : matchTopic(message.matchId!);
+    client.subscriptions.delete(key);
+
+    this.send(client, { type: 'unsubscribed', matchId: message.matchId, groupId: message.groupId });
+  }
+
+  private getTopics(client: WebSocketClient): Set<string> {
+    return new Set(Array.from(client.subscriptions.values()).flat());
+  }
+
+  /**
+   * Send an event received by SSEService to the subscribed clients
+   */
+  private deliver(event: LiveEvent): void {
+    this.clients.forEach((client) => {
+      const topics = this.getTopics(client);
+      if (event.topics.some(topic => topics.has(topic))) {
+        this.sendEvent(client, event);
+      }
+    });
+
+    // A member who left loses the group subscription, on every instance
+    if (event.event === 'member-left') {
+      const key = groupTopic(event.data.groupId);
+
+      this.clients.forEach((client) => {
+        if (client.userId === event.data.userId && client.subscriptions.delete(key)) {
+          this.send(client, {
+            type: 'unsubscribed',
+            groupId: event.data.groupId,
+            reason: 'Not a member of this group',
+          });
+        }
+      });
+    }
+  }
+
+  /**
+   * Events are dropped while too much data is waiting to be sent to a client,
+   * so a slow client cannot grow the server's memory. Once it catches up, it
+   * is told to reload its state before receiving new events.
+   */
+  private sendEvent(client: WebSocketClient, event: LiveEvent): void {
+    if (client.socket.bufferedAmount > this.options.maxBufferedBytes) {
+      client.lagging = true;
+      return;
+    }
+
+    if (client.lagging) {
+      client.lagging = false;
+      this.sendResync(client);
+    }
+
+    this.send(client, { type: 'event', id: event.id, event: event.event, data: event.data });
+  }
+
+  private sendResync(client: WebSocketClient): void {
+    this.send(client, {
+      type: 'resync',
+      message: 'Some events were missed, reload the current state',
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  private sendError(client: WebSocketClient, code: string, message: string): void {
+    this.send(client, { type: 'error', code, message });
+  }
+
+  private send(client: WebSocketClient, payload: Record<string, any>): void {
+    if (client.socket.readyState !== WebSocket.OPEN) return;
+
+    client.socket.send(JSON.stringify(payload));
+  }
+
+  /**
+   * Ping every client and drop the ones that did not answer the previous ping,
+   * or are still too far behind to receive events
+   */
+  private checkClients(): void {
+    this.clients.forEach((client) => {
+      const stuck = client.lagging && client.socket.bufferedAmount > this.options.maxBufferedBytes;
+
+      if (!client.alive || stuck) {
+        client.socket.terminate();
+        return;
+      }
+
+      client.alive = false;
+      client.socket.ping();
+    });
+  }
+
+  /**
+   * Get number of active clients
+   */
+  getActiveClientsCount(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Pings only run while clients are connected, so an idle process has no timer
+   */
+  private startPing(): void {
+    if (this.pingTimer) return;
+
+    this.pingTimer = setInterval(() => this.checkClients(), this.options.pingInterval);
+  }
+
+  private stopPingWhenIdle(): void {
+    if (this.pingTimer && this.clients.size === 0) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+  }
+}
+
+// Singleton instance
+export const websocketService = new WebSocketService();
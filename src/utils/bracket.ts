@@ -0,0 +1,40 @@
+/**
+ * Standard bracket order, so that the top seeds can only meet in late rounds.
+ * For 8 teams: [1, 8, 4, 5, 2, 7, 3, 6] (1v8, 4v5, 2v7, 3v6)
+ */
+export const getSeedingOrder = (size: number): number[] => {
+  let order = [1];
+  while (order.length < size) {
+    const total = order.length * 2 + 1;
+    order = order.flatMap(seed => [seed, total - seed]);
+  }
+  return order;
+};
+
+export const isPowerOfTwo = (value: number): boolean =>
+  value >= 2 && (value & (value - 1)) === 0;
+
+export const getWinsNeeded = (bestOf: number): number => Math.ceil(bestOf / 2);
+
+/**
+ * Possible lengths of a best-of-N series, e.g. 4 to 7 games for a best-of-7
+ */
+export const isValidSeriesLength = (bestOf: number, games: number): boolean =>
+  games >= getWinsNeeded(bestOf) && games <= bestOf;
+
+export interface SeriesOutcome {
+  winnerTeamId: number;
+  games: number;
+}
+
+export const scoreBracketPick = (
+  pick: SeriesOutcome,
+  outcome: SeriesOutcome,
+  points: { winner: number; length: number }
+): number => {
+  if (pick.winnerTeamId !== outcome.winnerTeamId) {
+    return 0;
+  }
+
+  return points.winner + (pick.games === outcome.games ? points.length : 0);
+};
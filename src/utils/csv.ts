@@ -0,0 +1,58 @@
+/**
+ * Split a CSV line into fields, honouring double-quoted fields
+ */
+export const parseCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',' || char === ';') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field.trim());
+  return fields;
+};
+
+/**
+ * Read the email addresses of a CSV file, with the line each one is on.
+ * The addresses are taken from the `email` column when the first line is a
+ * header, otherwise from the first column. Blank lines are ignored, but still
+ * counted so the line numbers match the file.
+ */
+export const parseEmailCsv = (csv: string): { line: number; email: string }[] => {
+  const lines = csv
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .map((text, index) => ({ line: index + 1, text }))
+    .filter(({ text }) => text.trim() !== '');
+
+  if (lines.length === 0) return [];
+
+  const header = parseCsvLine(lines[0].text).map(field => field.toLowerCase());
+  const emailColumn = header.findIndex(field => field === 'email' || field === 'e-mail');
+
+  if (emailColumn === -1) {
+    return lines.map(({ line, text }) => ({ line, email: parseCsvLine(text)[0] }));
+  }
+
+  return lines.slice(1).map(({ line, text }) => ({ line, email: parseCsvLine(text)[emailColumn] ?? '' }));
+};
@@ -7,3 +7,20 @@ export const generateInviteCode = (): string => {
 export const generateInvitationToken = (): string => {
   return crypto.randomUUID();
 };
+
+export interface InviteLinkState {
+  expiresAt: Date | null;
+  maxUses: number | null;
+  uses: number;
+  disabledAt: Date | null;
+}
+
+/**
+ * Returns why an invite link can no longer be used, or null when it still works
+ */
+export const getInviteLinkError = (link: InviteLinkState, now: Date = new Date()): string | null => {
+  if (link.disabledAt) return 'Invite link has been disabled';
+  if (link.expiresAt && link.expiresAt <= now) return 'Invite link has expired';
+  if (link.maxUses !== null && link.uses >= link.maxUses) return 'Invite link has reached its maximum uses';
+  return null;
+};
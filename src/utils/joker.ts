@@ -0,0 +1,41 @@
+export const JOKER_SCOPES = ['competition', 'matchday'] as const;
+
+export type JokerScope = (typeof JOKER_SCOPES)[number];
+
+/**
+ * Predictions lock once the match has started or left the scheduled status
+ */
+export const isMatchLocked = (match: { scheduledDate: Date; status: string }): boolean =>
+  new Date(match.scheduledDate) <= new Date() || match.status !== 'scheduled';
+
+/**
+ * Bounds of the matchday a match belongs to. Matches without a matchday
+ * number are grouped by the calendar day (UTC) they are scheduled on.
+ */
+export const getMatchdayFilter = (match: { matchday: number | null; scheduledDate: Date }) => {
+  if (match.matchday !== null) {
+    return { matchday: match.matchday };
+  }
+
+  const start = new Date(match.scheduledDate);
+  start.setUTCHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setUTCDate(end.getUTCDate() + 1);
+
+  return { matchday: null, scheduledDate: { gte: start, lt: end } };
+};
+
+/**
+ * Hide the joker flag of a prediction from anyone but its owner until the match locks
+ */
+export const hideJoker = <T extends { userId: number; isJoker: boolean; match: { scheduledDate: Date; status: string } }>(
+  prediction: T,
+  viewerId?: number
+): Omit<T, 'isJoker'> & { isJoker?: boolean } => {
+  if (prediction.userId === viewerId || isMatchLocked(prediction.match)) {
+    return prediction;
+  }
+
+  const { isJoker, ...hidden } = prediction;
+  return hidden;
+};
@@ -1,28 +1,65 @@
 import jwt from 'jsonwebtoken';
 import { config } from '../config/env';
 
+export type TokenType = 'access' | 'refresh';
+
+export const PLATFORM_ROLES = ['user', 'editor', 'admin'] as const;
+
+export type PlatformRole = (typeof PLATFORM_ROLES)[number];
+
 export interface JWTPayload {
   userId: number;
   email: string;
   username: string;
+  role: PlatformRole;
+  type: 'access';
+  sessionId: string;
+  // Expiry in seconds, set when the token is signed
+  exp?: number;
+}
+
+export interface RefreshTokenPayload {
+  userId: number;
+  type: 'refresh';
+  sessionId: string;
+  jti: string;
 }
 
-export const generateToken = (payload: JWTPayload): string => {
-  return jwt.sign(payload, config.jwt.secret, {
+export const generateToken = (payload: Omit<JWTPayload, 'type'>): string => {
+  return jwt.sign({ ...payload, type: 'access' }, config.jwt.secret, {
     expiresIn: config.jwt.expiration as string,
   } as jwt.SignOptions);
 };
 
-export const generateRefreshToken = (payload: JWTPayload): string => {
-  return jwt.sign(payload, config.jwt.secret, {
+export const generateRefreshToken = (payload: Omit<RefreshTokenPayload, 'type'>): string => {
+  return jwt.sign({ ...payload, type: 'refresh' }, config.jwt.refreshSecret, {
     expiresIn: config.jwt.refreshExpiration as string,
   } as jwt.SignOptions);
 };
 
+/**
+ * Verify a bearer token. Refresh tokens are rejected.
+ */
 export const verifyToken = (token: string): JWTPayload => {
   try {
-    return jwt.verify(token, config.jwt.secret) as JWTPayload;
+    const payload = jwt.verify(token, config.jwt.secret) as JWTPayload;
+    if (payload.type !== 'access') {
+      throw new Error('Not an access token');
+    }
+    return payload;
   } catch (error) {
     throw new Error('Invalid or expired token');
   }
 };
+
+export const verifyRefreshToken = (token: string): RefreshTokenPayload & { exp: number } => {
+  try {
+    const payload = jwt.verify(token, config.jwt.refreshSecret) as RefreshTokenPayload & { exp: number };
+    if (payload.type !== 'refresh') {
+      throw new Error('Not a refresh token');
+    }
+    return payload;
+  } catch (error) {
+    throw new Error('Invalid or expired refresh token');
+  }
+};
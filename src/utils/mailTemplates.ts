@@ -0,0 +1,64 @@
+import { config } from '../config/env';
+import { MailMessage } from '../services/mail.service';
+
+export const passwordResetMail = (to: string, username: string, token: string): MailMessage => {
+  const link = `${config.appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+
+  return {
+    to,
+    subject: 'Reset your FrozenBet password',
+    text: `Hi ${username},\n\nSomeone asked to reset the password of your FrozenBet account. ` +
+      `Open this link to choose a new password:\n\n${link}\n\n` +
+      'The link expires in one hour. If you did not ask for it, you can ignore this email.',
+  };
+};
+
+export const emailVerificationMail = (to: string, username: string, token: string): MailMessage => {
+  const link = `${config.appUrl}/verify-email?token=${encodeURIComponent(token)}`;
+
+  return {
+    to,
+    subject: 'Confirm your email address',
+    text: `Hi ${username},\n\nPlease confirm that ${to} is your email address by opening this link:\n\n${link}\n\n` +
+      'The link expires in 24 hours.',
+  };
+};
+
+export const MAIL_LANGUAGES = ['en', 'fr'] as const;
+
+export type MailLanguage = (typeof MAIL_LANGUAGES)[number];
+
+export interface InvitationMailParams {
+  inviterName: string;
+  groupName: string;
+  token: string;
+  expiresAt: Date;
+}
+
+const invitationTexts: Record<MailLanguage, (params: InvitationMailParams & { link: string }) => {
+  subject: string;
+  text: string;
+}> = {
+  en: ({ inviterName, groupName, link, expiresAt }) => ({
+    subject: `${inviterName} invited you to join ${groupName} on FrozenBet`,
+    text: `Hi,\n\n${inviterName} invited you to join the prediction group "${groupName}" on FrozenBet. ` +
+      `Open this link to accept the invitation:\n\n${link}\n\n` +
+      `The invitation expires on ${expiresAt.toISOString().slice(0, 10)}. If you do not know ${inviterName}, you can ignore this email.`,
+  }),
+  fr: ({ inviterName, groupName, link, expiresAt }) => ({
+    subject: `${inviterName} vous invite à rejoindre ${groupName} sur FrozenBet`,
+    text: `Bonjour,\n\n${inviterName} vous invite à rejoindre le groupe de pronostics « ${groupName} » sur FrozenBet. ` +
+      `Ouvrez ce lien pour accepter l'invitation :\n\n${link}\n\n` +
+      `L'invitation expire le ${expiresAt.toISOString().slice(0, 10)}. Si vous ne connaissez pas ${inviterName}, vous pouvez ignorer cet email.`,
+  }),
+};
+
+/**
+ * Unknown languages fall back to English
+ */
+export const invitationMail = (to: string, language: string, params: InvitationMailParams): MailMessage => {
+  const link = `${config.appUrl}/invitations?token=${encodeURIComponent(params.token)}`;
+  const render = invitationTexts[language as MailLanguage] ?? invitationTexts.en;
+
+  return { to, ...render({ ...params, link }) };
+};
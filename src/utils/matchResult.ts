@@ -0,0 +1,39 @@
+export const MATCH_RESULT_TYPES = ['regulation', 'overtime', 'shootout'] as const;
+
+export type MatchResultType = (typeof MATCH_RESULT_TYPES)[number];
+
+export interface FinalScore {
+  homeScore: number;
+  awayScore: number;
+  resultType?: MatchResultType;
+  regulationHomeScore?: number;
+  regulationAwayScore?: number;
+}
+
+/**
+ * Fill in the regulation score of a final score.
+ * A game decided in overtime or a shootout was tied after regulation,
+ * at the losing team's final score.
+ */
+export const resolveRegulationScore = (score: FinalScore) => {
+  const resultType = score.resultType ?? 'regulation';
+
+  if (resultType === 'regulation') {
+    return {
+      resultType,
+      regulationHomeScore: score.homeScore,
+      regulationAwayScore: score.awayScore,
+    };
+  }
+
+  const tiedScore = Math.min(score.homeScore, score.awayScore);
+
+  return {
+    resultType,
+    regulationHomeScore: score.regulationHomeScore ?? tiedScore,
+    regulationAwayScore: score.regulationAwayScore ?? tiedScore,
+  };
+};
+
+export const isBeyondRegulation = (resultType?: string | null): boolean =>
+  resultType === 'overtime' || resultType === 'shootout';
@@ -0,0 +1,146 @@
+import { FinalScore } from './matchResult';
+
+export const MATCH_EVENT_TYPES = ['goal', 'penalty', 'period_start', 'period_end'] as const;
+
+export type MatchEventType = (typeof MATCH_EVENT_TYPES)[number];
+
+export const GOAL_STRENGTHS = ['even', 'power_play', 'short_handed', 'empty_net', 'penalty_shot'] as const;
+
+export const OVERTIME_PERIOD = 4;
+export const SHOOTOUT_PERIOD = 5;
+export const PERIOD_SECONDS = 20 * 60;
+
+// Minor, double minor and major penalties put the other team on a power play
+const POWER_PLAY_PENALTIES = [2, 4, 5];
+const MINOR_SECONDS = 2 * 60;
+
+export interface TimelineEvent {
+  id: number;
+  type: string;
+  period: number;
+  periodTime: number;
+  teamId: number | null;
+  penaltyMinutes: number | null;
+}
+
+export interface PowerPlay {
+  penaltyId: number;
+  teamId: number; // team on the power play
+  startsAt: number; // seconds since the start of the game
+  endsAt: number;
+  endedByGoalId: number | null;
+}
+
+/**
+ * Returns why an event is incomplete or inconsistent, or null when it can be recorded
+ */
+export const getMatchEventError = (
+  event: { type: string; period: number; teamId?: number | null; penaltyMinutes?: number | null },
+  teamIds: number[]
+): string | null => {
+  if ((event.type === 'goal' || event.type === 'penalty') && !event.teamId) {
+    return `A ${event.type} needs a team`;
+  }
+  if (event.teamId && !teamIds.includes(event.teamId)) {
+    return 'Team does not play in this match';
+  }
+  if (event.type === 'penalty' && !event.penaltyMinutes) {
+    return 'A penalty needs its length in minutes';
+  }
+  if (event.type === 'penalty' && event.period === SHOOTOUT_PERIOD) {
+    return 'Penalties cannot be recorded during a shootout';
+  }
+  return null;
+};
+
+export const gameTime = (event: { period: number; periodTime: number }): number =>
+  (event.period - 1) * PERIOD_SECONDS + event.periodTime;
+
+export const compareEvents = (a: TimelineEvent, b: TimelineEvent): number =>
+  a.period - b.period || a.periodTime - b.periodTime || a.id - b.id;
+
+/**
+ * Score of a match from its goals. Regulation and overtime goals count as
+ * scored; a shootout adds a single goal for the team that scored more attempts.
+ */
+export const deriveScore = (
+  events: TimelineEvent[],
+  homeTeamId: number,
+  awayTeamId: number
+): Required<FinalScore> => {
+  const count = (teamId: number, periods: (period: number) => boolean) =>
+    events.filter(e => e.type === 'goal' && e.teamId === teamId && periods(e.period)).length;
+
+  const regulationHomeScore = count(homeTeamId, p => p < OVERTIME_PERIOD);
+  const regulationAwayScore = count(awayTeamId, p => p < OVERTIME_PERIOD);
+  const overtimeHome = count(homeTeamId, p => p === OVERTIME_PERIOD);
+  const overtimeAway = count(awayTeamId, p => p === OVERTIME_PERIOD);
+  const shootoutHome = count(homeTeamId, p => p === SHOOTOUT_PERIOD);
+  const shootoutAway = count(awayTeamId, p => p === SHOOTOUT_PERIOD);
+
+  const resultType = shootoutHome + shootoutAway > 0
+    ? 'shootout'
+    : overtimeHome + overtimeAway > 0 ? 'overtime' : 'regulation';
+
+  return {
+    homeScore: regulationHomeScore + overtimeHome + (shootoutHome > shootoutAway ? 1 : 0),
+    awayScore: regulationAwayScore + overtimeAway + (shootoutAway > shootoutHome ? 1 : 0),
+    resultType,
+    regulationHomeScore,
+    regulationAwayScore,
+  };
+};
+
+/**
+ * Power plays drawn by the penalties of a match. A goal by the team on the
+ * power play ends a minor penalty, or the current half of a double minor;
+ * a major is served in full. Coincidental penalties are not netted out.
+ */
+export const getPowerPlays = (
+  events: TimelineEvent[],
+  homeTeamId: number,
+  awayTeamId: number
+): PowerPlay[] => {
+  const goals = events
+    .filter(e => e.type === 'goal' && e.period < SHOOTOUT_PERIOD)
+    .sort(compareEvents);
+
+  return events
+    .filter(e => e.type === 'penalty' && POWER_PLAY_PENALTIES.includes(e.penaltyMinutes ?? 0))
+    .sort(compareEvents)
+    .map((penalty) => {
+      const teamId = penalty.teamId === homeTeamId ? awayTeamId : homeTeamId;
+      const startsAt = gameTime(penalty);
+      let endsAt = startsAt + penalty.penaltyMinutes! * 60;
+      let endedByGoalId: number | null = null;
+
+      if (penalty.penaltyMinutes !== 5) {
+        let minorsLeft = penalty.penaltyMinutes! / 2;
+        let minorEndsAt = startsAt + MINOR_SECONDS;
+
+        for (const goal of goals) {
+          const time = gameTime(goal);
+          if (goal.teamId !== teamId || time <= startsAt) continue;
+
+          // The first half of a double minor may have run out before the goal
+          while (time >= minorEndsAt && minorsLeft > 1) {
+            minorsLeft--;
+            minorEndsAt += MINOR_SECONDS;
+          }
+          if (time >= minorEndsAt) break;
+
+          minorsLeft--;
+          if (minorsLeft === 0) {
+            endsAt = time;
+            endedByGoalId = goal.id;
+            break;
+          }
+
+          minorEndsAt = time + MINOR_SECONDS;
+          endsAt = minorEndsAt;
+        }
+      }
+
+      return { penaltyId: penalty.id, teamId, startsAt, endsAt, endedByGoalId };
+    });
+};
@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import bcrypt from 'bcryptjs';
 
 const SALT_ROUNDS = 10;
@@ -12,3 +13,18 @@ export const comparePassword = async (
 ): Promise<boolean> => {
   return bcrypt.compare(password, hash);
 };
+
+/**
+ * Hash a random token before storing it. Tokens are long and random,
+ * so a fast hash is enough, unlike passwords.
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Random token for links sent by email
+ */
+export const generateSecureToken = (): string => {
+  return crypto.randomBytes(32).toString('base64url');
+};
@@ -9,6 +9,7 @@ export interface ApiResponse<T = any> {
     limit?: number;
     total?: number;
     totalPages?: number;
+    [key: string]: any;
   };
 }
 
@@ -0,0 +1,34 @@
+/**
+ * Fixed-size buffer keeping the most recent items, oldest first
+ */
+export class RingBuffer<T> {
+  private items: T[] = [];
+  private start = 0;
+
+  constructor(private capacity: number) {}
+
+  /**
+   * Add an item, returning the oldest one when it was dropped to make room
+   */
+  push(item: T): T | undefined {
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+      return undefined;
+    }
+
+    // Overwrite the oldest item
+    const dropped = this.items[this.start];
+    this.items[this.start] = item;
+    this.start = (this.start + 1) % this.capacity;
+
+    return dropped;
+  }
+
+  toArray(): T[] {
+    return [...this.items.slice(this.start), ...this.items.slice(0, this.start)];
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+}
@@ -0,0 +1,179 @@
+import { isBeyondRegulation, MatchResultType } from './matchResult';
+
+export const SCORING_RULE_TYPES = [
+  'exact_score',
+  'correct_winner',
+  'correct_draw',
+  'goal_difference',
+  'team_score',
+  'total_goals',
+  'regulation_result',
+  'goes_to_overtime',
+  'result_type',
+] as const;
+
+export type ScoringRuleType = (typeof SCORING_RULE_TYPES)[number];
+
+export interface ScorePrediction {
+  homeScorePrediction: number;
+  awayScorePrediction: number;
+  resultTypePrediction?: string | null;
+}
+
+export interface MatchResult {
+  homeScore: number;
+  awayScore: number;
+  resultType?: MatchResultType | null;
+  regulationHomeScore?: number | null;
+  regulationAwayScore?: number | null;
+}
+
+export interface ScoringRuleConfig {
+  ruleType: string;
+  points: number;
+  parameters?: any;
+}
+
+export interface ScoringRuleEvaluator<P = Record<string, any>> {
+  type: ScoringRuleType;
+  /**
+   * Returns true when the prediction satisfies the rule
+   */
+  matches(prediction: ScorePrediction, result: MatchResult, parameters: P): boolean;
+  /**
+   * When an exclusive rule matches, only exclusive rules are awarded
+   */
+  isExclusive?(parameters: P): boolean;
+}
+
+const getOutcome = (home: number, away: number): 'home' | 'away' | 'draw' => {
+  if (home > away) return 'home';
+  if (home < away) return 'away';
+  return 'draw';
+};
+
+const exactScore: ScoringRuleEvaluator<{ exclusive?: boolean }> = {
+  type: 'exact_score',
+  matches: (prediction, result) =>
+    prediction.homeScorePrediction === result.homeScore &&
+    prediction.awayScorePrediction === result.awayScore,
+  isExclusive: (parameters) => parameters.exclusive !== false,
+};
+
+const correctWinner: ScoringRuleEvaluator = {
+  type: 'correct_winner',
+  matches: (prediction, result) => {
+    const actual = getOutcome(result.homeScore, result.awayScore);
+    return actual !== 'draw' &&
+      getOutcome(prediction.homeScorePrediction, prediction.awayScorePrediction) === actual;
+  },
+};
+
+const correctDraw: ScoringRuleEvaluator = {
+  type: 'correct_draw',
+  matches: (prediction, result) =>
+    result.homeScore === result.awayScore &&
+    prediction.homeScorePrediction === prediction.awayScorePrediction,
+};
+
+const goalDifference: ScoringRuleEvaluator = {
+  type: 'goal_difference',
+  matches: (prediction, result) =>
+    prediction.homeScorePrediction - prediction.awayScorePrediction ===
+    result.homeScore - result.awayScore,
+};
+
+const teamScore: ScoringRuleEvaluator = {
+  type: 'team_score',
+  matches: (prediction, result) =>
+    prediction.homeScorePrediction === result.homeScore ||
+    prediction.awayScorePrediction === result.awayScore,
+};
+
+const totalGoals: ScoringRuleEvaluator<{ tolerance?: number }> = {
+  type: 'total_goals',
+  matches: (prediction, result, parameters) => {
+    const predicted = prediction.homeScorePrediction + prediction.awayScorePrediction;
+    const actual = result.homeScore + result.awayScore;
+    return Math.abs(predicted - actual) <= (parameters.tolerance ?? 0);
+  },
+};
+
+/**
+ * A predicted tie, or an explicit overtime/shootout pick, means the game goes past regulation
+ */
+const predictsBeyondRegulation = (prediction: ScorePrediction): boolean =>
+  isBeyondRegulation(prediction.resultTypePrediction) ||
+  prediction.homeScorePrediction === prediction.awayScorePrediction;
+
+const regulationResult: ScoringRuleEvaluator = {
+  type: 'regulation_result',
+  matches: (prediction, result) => {
+    const regulationHome = result.regulationHomeScore ?? result.homeScore;
+    const regulationAway = result.regulationAwayScore ?? result.awayScore;
+    return getOutcome(prediction.homeScorePrediction, prediction.awayScorePrediction) ===
+      getOutcome(regulationHome, regulationAway);
+  },
+};
+
+const goesToOvertime: ScoringRuleEvaluator = {
+  type: 'goes_to_overtime',
+  matches: (prediction, result) =>
+    isBeyondRegulation(result.resultType) && predictsBeyondRegulation(prediction),
+};
+
+const resultType: ScoringRuleEvaluator = {
+  type: 'result_type',
+  matches: (prediction, result) =>
+    (prediction.resultTypePrediction ?? 'regulation') === (result.resultType ?? 'regulation'),
+};
+
+export const scoringRuleEvaluators: Record<ScoringRuleType, ScoringRuleEvaluator<any>> = {
+  exact_score: exactScore,
+  correct_winner: correctWinner,
+  correct_draw: correctDraw,
+  goal_difference: goalDifference,
+  team_score: teamScore,
+  total_goals: totalGoals,
+  regulation_result: regulationResult,
+  goes_to_overtime: goesToOvertime,
+  result_type: resultType,
+};
+
+export const DEFAULT_SCORING_RULES: Array<ScoringRuleConfig & { ruleDescription: string }> = [
+  { ruleType: 'exact_score', ruleDescription: 'Exact score', points: 5, parameters: { exclusive: true } },
+  { ruleType: 'correct_winner', ruleDescription: 'Correct winner', points: 3, parameters: {} },
+  { ruleType: 'correct_draw', ruleDescription: 'Correct draw', points: 3, parameters: {} },
+];
+
+export const isScoringRuleType = (ruleType: string): ruleType is ScoringRuleType =>
+  (SCORING_RULE_TYPES as readonly string[]).includes(ruleType);
+
+/**
+ * Compute the points earned by a prediction against a group's rules.
+ * Every matching rule is summed, unless an exclusive rule matches
+ * in which case only the exclusive rules are awarded. Rules of an unknown
+ * type, such as legacy rules left unclassified, are ignored: a group without
+ * any known rule is scored with the defaults.
+ */
+export const calculatePredictionPoints = (
+  prediction: ScorePrediction,
+  result: MatchResult,
+  rules: ScoringRuleConfig[]
+): number => {
+  const knownRules = rules.filter(rule => isScoringRuleType(rule.ruleType));
+  const activeRules = knownRules.length > 0 ? knownRules : DEFAULT_SCORING_RULES;
+
+  const matched = activeRules.filter((rule) => {
+    const evaluator = scoringRuleEvaluators[rule.ruleType as ScoringRuleType];
+    return evaluator.matches(prediction, result, rule.parameters ?? {});
+  });
+
+  const exclusive = matched.filter((rule) => {
+    const evaluator = scoringRuleEvaluators[rule.ruleType as ScoringRuleType];
+    return evaluator.isExclusive?.(rule.parameters ?? {}) ?? false;
+  });
+
+  const awarded = exclusive.length > 0 ? exclusive : matched;
+  return awarded.reduce((sum, rule) => sum + rule.points, 0);
+};
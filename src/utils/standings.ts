@@ -0,0 +1,445 @@
+import { isBeyondRegulation } from './matchResult';
+
+export const STANDINGS_TIEBREAKERS = [
+  'regulation_wins',
+  'regulation_overtime_wins',
+  'wins',
+  'head_to_head',
+  'goal_difference',
+  'goals_for',
+] as const;
+
+export type StandingsTiebreaker = (typeof STANDINGS_TIEBREAKERS)[number];
+
+export interface StandingsFormat {
+  pointsForWin: number;
+  pointsForOvertimeWin: number;
+  pointsForOvertimeLoss: number;
+  pointsForDraw: number;
+  pointsForLoss: number;
+  tiebreakers: StandingsTiebreaker[];
+}
+
+export const STANDINGS_FORMATS = {
+  // 2 points for any win, 1 for an overtime/shootout loss, ties broken on RW then ROW
+  nhl: {
+    pointsForWin: 2,
+    pointsForOvertimeWin: 2,
+    pointsForOvertimeLoss: 1,
+    pointsForDraw: 1,
+    pointsForLoss: 0,
+    tiebreakers: ['regulation_wins', 'regulation_overtime_wins', 'wins', 'head_to_head', 'goal_difference', 'goals_for'],
+  },
+  // 3 points for a regulation win, 2 for an overtime/shootout win, 1 for an overtime/shootout loss
+  iihf: {
+    pointsForWin: 3,
+    pointsForOvertimeWin: 2,
+    pointsForOvertimeLoss: 1,
+    pointsForDraw: 1,
+    pointsForLoss: 0,
+    tiebreakers: ['head_to_head', 'goal_difference', 'goals_for'],
+  },
+  // Historical 3/1/0 table, kept for competitions that allow draws
+  classic: {
+    pointsForWin: 3,
+    pointsForOvertimeWin: 3,
+    pointsForOvertimeLoss: 0,
+    pointsForDraw: 1,
+    pointsForLoss: 0,
+    tiebreakers: ['goal_difference', 'goals_for'],
+  },
+} satisfies Record<string, StandingsFormat>;
+
+export type StandingsFormatName = keyof typeof STANDINGS_FORMATS;
+
+export const STANDINGS_FORMAT_NAMES = Object.keys(STANDINGS_FORMATS) as StandingsFormatName[];
+
+export interface StandingsTeam {
+  id: number;
+  name: string;
+}
+
+export interface StandingsMatch {
+  homeTeamId: number;
+  awayTeamId: number;
+  homeScore: number;
+  awayScore: number;
+  resultType?: string | null;
+}
+
+export interface StandingsRow {
+  teamId: number;
+  teamName: string;
+  position?: number;
+  played: number;
+  won: number;
+  regulationWins: number;
+  regulationOvertimeWins: number;
+  overtimeWins: number;
+  shootoutWins: number;
+  drawn: number;
+  lost: number;
+  overtimeLosses: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifference: number;
+  points: number;
+  pointsPercentage: number;
+  qualification?: 'playoff' | 'division' | 'wildcard';
+}
+
+export type StandingsGroupBy = 'overall' | 'conference' | 'division';
+
+export interface StandingsDivision {
+  id: number;
+  name: string;
+  type: string;
+  parentId: number | null;
+  qualifyingSpots: number | null;
+  wildcardSpots: number | null;
+}
+
+export interface StandingsCutLine {
+  divisionId: number | null;
+  qualifyingSpots: number | null;
+  wildcardSpots: number | null;
+  // Last position (within the group) that qualifies directly, or through a wildcard
+  lastQualifiedPosition: number | null;
+  lastWildcardPosition: number | null;
+}
+
+export interface StandingsGroup {
+  division: { id: number; name: string; type: string } | null;
+  standings: StandingsRow[];
+}
+
+/**
+ * Resolve a competition's format, applying its tiebreaker override if any
+ */
+export const resolveStandingsFormat = (
+  name?: string | null,
+  tiebreakers?: string[] | null
+): StandingsFormat => {
+  const preset: StandingsFormat = STANDINGS_FORMATS[name as StandingsFormatName] ?? STANDINGS_FORMATS.nhl;
+
+  return {
+    ...preset,
+    tiebreakers: tiebreakers && tiebreakers.length > 0
+      ? (tiebreakers.filter(t => STANDINGS_TIEBREAKERS.includes(t as StandingsTiebreaker)) as StandingsTiebreaker[])
+      : preset.tiebreakers,
+  };
+};
+
+const createRow = (team: StandingsTeam): StandingsRow => ({
+  teamId: team.id,
+  teamName: team.name,
+  played: 0,
+  won: 0,
+  regulationWins: 0,
+  regulationOvertimeWins: 0,
+  overtimeWins: 0,
+  shootoutWins: 0,
+  drawn: 0,
+  lost: 0,
+  overtimeLosses: 0,
+  goalsFor: 0,
+  goalsAgainst: 0,
+  goalDifference: 0,
+  points: 0,
+  pointsPercentage: 0,
+});
+
+/**
+ * Points earned by each side of a match under a format
+ */
+const getMatchPoints = (match: StandingsMatch, format: StandingsFormat) => {
+  if (match.homeScore === match.awayScore) {
+    return { home: format.pointsForDraw, away: format.pointsForDraw };
+  }
+
+  const extraTime = isBeyondRegulation(match.resultType);
+  const winnerPoints = extraTime ? format.pointsForOvertimeWin : format.pointsForWin;
+  const loserPoints = extraTime ? format.pointsForOvertimeLoss : format.pointsForLoss;
+
+  return match.homeScore > match.awayScore
+    ? { home: winnerPoints, away: loserPoints }
+    : { home: loserPoints, away: winnerPoints };
+};
+
+const recordResult = (
+  row: StandingsRow,
+  goalsFor: number,
+  goalsAgainst: number,
+  points: number,
+  resultType?: string | null
+) => {
+  row.played += 1;
+  row.goalsFor += goalsFor;
+  row.goalsAgainst += goalsAgainst;
+  row.goalDifference = row.goalsFor - row.goalsAgainst;
+  row.points += points;
+
+  const extraTime = isBeyondRegulation(resultType);
+
+  if (goalsFor > goalsAgainst) {
+    row.won += 1;
+    if (!extraTime) row.regulationWins += 1;
+    if (resultType === 'overtime') row.overtimeWins += 1;
+    if (resultType === 'shootout') row.shootoutWins += 1;
+    if (resultType !== 'shootout') row.regulationOvertimeWins += 1;
+  } else if (goalsFor < goalsAgainst) {
+    if (extraTime) {
+      row.overtimeLosses += 1;
+    } else {
+      row.lost += 1;
+    }
+  } else {
+    row.drawn += 1;
+  }
+};
+
+/**
+ * Points each team earned in the games played between the given teams only
+ */
+const getHeadToHeadPoints = (
+  rows: StandingsRow[],
+  matches: StandingsMatch[],
+  format: StandingsFormat
+): Map<number, number> => {
+  const teamIds = new Set(rows.map(r => r.teamId));
+  const points = new Map<number, number>(rows.map(r => [r.teamId, 0]));
+
+  matches
+    .filter(m => teamIds.has(m.homeTeamId) && teamIds.has(m.awayTeamId))
+    .forEach(match => {
+      const matchPoints = getMatchPoints(match, format);
+      points.set(match.homeTeamId, points.get(match.homeTeamId)! + matchPoints.home);
+      points.set(match.awayTeamId, points.get(match.awayTeamId)! + matchPoints.away);
+    });
+
+  return points;
+};
+
+const getCriterionValues = (
+  criterion: 'points' | StandingsTiebreaker,
+  rows: StandingsRow[],
+  matches: StandingsMatch[],
+  format: StandingsFormat
+): Map<number, number> => {
+  if (criterion === 'head_to_head') {
+    return getHeadToHeadPoints(rows, matches, format);
+  }
+
+  const field: Record<Exclude<typeof criterion, 'head_to_head'>, keyof StandingsRow> = {
+    points: 'points',
+    regulation_wins: 'regulationWins',
+    regulation_overtime_wins: 'regulationOvertimeWins',
+    wins: 'won',
+    goal_difference: 'goalDifference',
+    goals_for: 'goalsFor',
+  };
+
+  return new Map(rows.map(r => [r.teamId, r[field[criterion]] as number]));
+};
+
+/**
+ * Order rows on the first criterion, then break each tied block with the
+ * remaining criteria. Head-to-head is computed within the tied block only.
+ */
+const sortRows = (
+  rows: StandingsRow[],
+  criteria: Array<'points' | StandingsTiebreaker>,
+  matches: StandingsMatch[],
+  format: StandingsFormat
+): StandingsRow[] => {
+  if (rows.length <= 1) return rows;
+
+  if (criteria.length === 0) {
+    return [...rows].sort((a, b) => a.teamName.localeCompare(b.teamName));
+  }
+
+  const [criterion, ...remaining] = criteria;
+  const values = getCriterionValues(criterion, rows, matches, format);
+  const sorted = [...rows].sort((a, b) => values.get(b.teamId)! - values.get(a.teamId)!);
+
+  const result: StandingsRow[] = [];
+  let block: StandingsRow[] = [];
+
+  sorted.forEach((row, index) => {
+    block.push(row);
+    const next = sorted[index + 1];
+    if (!next || values.get(next.teamId) !== values.get(row.teamId)) {
+      result.push(...sortRows(block, remaining, matches, format));
+      block = [];
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Rank a set of rows, assigning positions relative to that set
+ */
+export const rankStandings = (
+  rows: StandingsRow[],
+  matches: StandingsMatch[],
+  format: StandingsFormat
+): StandingsRow[] => {
+  const standings = sortRows(
+    rows.map(row => ({ ...row })),
+    ['points', ...format.tiebreakers],
+    matches,
+    format
+  );
+
+  standings.forEach((row, index) => {
+    row.position = index + 1;
+  });
+
+  return standings;
+};
+
+export const computeStandings = (
+  teams: StandingsTeam[],
+  matches: StandingsMatch[],
+  format: StandingsFormat
+): StandingsRow[] => {
+  const rows = new Map<number, StandingsRow>(teams.map(team => [team.id, createRow(team)]));
+
+  matches.forEach(match => {
+    const home = rows.get(match.homeTeamId);
+    const away = rows.get(match.awayTeamId);
+    if (!home || !away) return;
+
+    const points = getMatchPoints(match, format);
+    recordResult(home, match.homeScore, match.awayScore, points.home, match.resultType);
+    recordResult(away, match.awayScore, match.homeScore, points.away, match.resultType);
+  });
+
+  const maxPointsPerGame = Math.max(format.pointsForWin, format.pointsForOvertimeWin);
+  rows.forEach(row => {
+    row.pointsPercentage = row.played > 0
+      ? Math.round((row.points / (row.played * maxPointsPerGame)) * 1000) / 1000
+      : 0;
+  });
+
+  return rankStandings(Array.from(rows.values()), matches, format);
+};
+
+const lastPosition = (rows: StandingsRow[], qualification: StandingsRow['qualification']): number | null => {
+  const qualified = rows.filter(r => r.qualification === qualification);
+  return qualified.length > 0 ? qualified[qualified.length - 1].position! : null;
+};
+
+/**
+ * Mark the top `spots` rows of an already ranked list
+ */
+export const applyPlayoffCutLine = (rows: StandingsRow[], spots: number | null): StandingsCutLine => {
+  if (spots) {
+    rows.slice(0, spots).forEach(row => {
+      row.qualification = 'playoff';
+    });
+  }
+
+  return {
+    divisionId: null,
+    qualifyingSpots: spots,
+    wildcardSpots: null,
+    lastQualifiedPosition: lastPosition(rows, 'playoff'),
+    lastWildcardPosition: null,
+  };
+};
+
+/**
+ * Split overall standings into divisions or conferences, re-ranked within each group.
+ * Division leaders (qualifyingSpots of each division) qualify directly; in conference
+ * view the next wildcardSpots teams of the conference take the wildcard places.
+ * Teams without a division/conference are returned in a trailing group with no division.
+ */
+export const groupStandings = (
+  overall: StandingsRow[],
+  matches: StandingsMatch[],
+  format: StandingsFormat,
+  divisions: StandingsDivision[],
+  teamDivisions: Map<number, number | null>,
+  groupBy: Exclude<StandingsGroupBy, 'overall'>
+): { groups: StandingsGroup[]; cutLines: StandingsCutLine[] } => {
+  const divisionsById = new Map(divisions.map(d => [d.id, d]));
+
+  const findAncestor = (divisionId: number | null | undefined, type: string): StandingsDivision | null => {
+    let current = divisionId ? divisionsById.get(divisionId) : undefined;
+    // Guards against a parent cycle left in the data
+    const visited = new Set<number>();
+    while (current && !visited.has(current.id)) {
+      if (current.type === type) return current;
+      visited.add(current.id);
+      current = current.parentId ? divisionsById.get(current.parentId) : undefined;
+    }
+    return null;
+  };
+
+  const rankWithin = (rows: StandingsRow[]) =>
+    rankStandings(rows.map(({ qualification, ...row }) => row), matches, format);
+
+  // Direct qualifiers of every division, whatever the view
+  const divisionQualifiers = new Set<number>();
+  divisions
+    .filter(d => d.type === 'division' && d.qualifyingSpots)
+    .forEach(division => {
+      const rows = overall.filter(r => findAncestor(teamDivisions.get(r.teamId), 'division')?.id === division.id);
+      rankWithin(rows)
+        .slice(0, division.qualifyingSpots!)
+        .forEach(r => divisionQualifiers.add(r.teamId));
+    });
+
+  const groups: StandingsGroup[] = [];
+  const cutLines: StandingsCutLine[] = [];
+
+  divisions
+    .filter(d => d.type === groupBy)
+    .forEach(division => {
+      const standings = rankWithin(
+        overall.filter(r => findAncestor(teamDivisions.get(r.teamId), groupBy)?.id === division.id)
+      );
+
+      standings.forEach(row => {
+        if (divisionQualifiers.has(row.teamId)) row.qualification = 'division';
+      });
+
+      // A conference without divisions qualifies its own top teams
+      if (groupBy === 'conference' && division.qualifyingSpots && divisionQualifiers.size === 0) {
+        standings.slice(0, division.qualifyingSpots).forEach(row => {
+          row.qualification = 'playoff';
+        });
+      }
+
+      if (groupBy === 'conference' && division.wildcardSpots) {
+        standings
+          .filter(row => !row.qualification)
+          .slice(0, division.wildcardSpots)
+          .forEach(row => {
+            row.qualification = 'wildcard';
+          });
+      }
+
+      groups.push({
+        division: { id: division.id, name: division.name, type: division.type },
+        standings,
+      });
+
+      cutLines.push({
+        divisionId: division.id,
+        qualifyingSpots: division.qualifyingSpots,
+        wildcardSpots: groupBy === 'conference' ? division.wildcardSpots : null,
+        lastQualifiedPosition: lastPosition(standings, 'division') ?? lastPosition(standings, 'playoff'),
+        lastWildcardPosition: lastPosition(standings, 'wildcard'),
+      });
+    });
+
+  const unassigned = overall.filter(r => !findAncestor(teamDivisions.get(r.teamId), groupBy));
+  if (unassigned.length > 0) {
+    groups.push({ division: null, standings: rankWithin(unassigned) });
+  }
+
+  return { groups, cutLines };
+};
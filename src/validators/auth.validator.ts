@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { MAIL_LANGUAGES } from '../utils/mailTemplates';
 
 export const registerSchema = z.object({
   username: z.string().min(3).max(50),
@@ -28,8 +29,31 @@ export const changePasswordSchema = z.object({
     .regex(/[^A-Za-z0-9]/, 'Password must contain at least one special character'),
 });
 
+export const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  newPassword: z
+    .string()
+    .min(8, 'Password must be at least 8 characters')
+    .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
+    .regex(/[0-9]/, 'Password must contain at least one number')
+    .regex(/[^A-Za-z0-9]/, 'Password must contain at least one special character'),
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
 export const updateProfileSchema = z.object({
   firstName: z.string().optional(),
   lastName: z.string().optional(),
   email: z.string().email().optional(),
+  language: z.enum(MAIL_LANGUAGES).optional(),
+});
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1),
 });
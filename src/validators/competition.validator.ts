@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { STANDINGS_FORMAT_NAMES, STANDINGS_TIEBREAKERS } from '../utils/standings';
+
+export const createCompetitionSchema = z.object({
+  themeId: z.number().int(),
+  name: z.string().min(1).max(200),
+  description: z.string().optional(),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  season: z.string().optional(),
+  standingsFormat: z.enum(STANDINGS_FORMAT_NAMES as [string, ...string[]]).optional(),
+  standingsTiebreakers: z.array(z.enum(STANDINGS_TIEBREAKERS)).optional(),
+  playoffSpots: z.number().int().positive().optional(),
+});
+
+export const updateCompetitionSchema = createCompetitionSchema
+  .omit({ themeId: true })
+  .partial()
+  .extend({
+    status: z.string().optional(),
+  });
+
+export const standingsQuerySchema = z.object({
+  groupBy: z.enum(['overall', 'conference', 'division']).default('overall'),
+});
+
+export const createDivisionSchema = z.object({
+  name: z.string().min(1).max(200),
+  shortName: z.string().max(50).optional(),
+  type: z.enum(['conference', 'division']).default('division'),
+  parentId: z.number().int().positive().optional(),
+  qualifyingSpots: z.number().int().positive().optional(),
+  wildcardSpots: z.number().int().positive().optional(),
+});
+
+export const updateDivisionSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  shortName: z.string().max(50).optional(),
+  type: z.enum(['conference', 'division']).optional(),
+  parentId: z.number().int().positive().nullable().optional(),
+  qualifyingSpots: z.number().int().positive().nullable().optional(),
+  wildcardSpots: z.number().int().positive().nullable().optional(),
+});
+
+export const assignDivisionTeamsSchema = z.object({
+  teamIds: z.array(z.number().int().positive()).min(1),
+});
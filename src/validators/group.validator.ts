@@ -1,21 +1,81 @@
 import { z } from 'zod';
+import { JOKER_SCOPES } from '../utils/joker';
+import { SCORING_RULE_TYPES, ScoringRuleType } from '../utils/scoringRules';
+
+export const GROUP_JOIN_MODES = ['open', 'invite_code', 'request'] as const;
 
 export const createGroupSchema = z.object({
   name: z.string().min(1).max(200),
   description: z.string().optional(),
   competitionId: z.number().int().positive(),
   visibility: z.enum(['private', 'public']).default('private'),
+  joinMode: z.enum(GROUP_JOIN_MODES).optional(),
+  maxMembers: z.number().int().positive().optional(),
 });
 
 export const updateGroupSchema = z.object({
   name: z.string().min(1).max(200).optional(),
   description: z.string().optional(),
   visibility: z.enum(['private', 'public']).optional(),
+  joinMode: z.enum(GROUP_JOIN_MODES).optional(),
+  maxMembers: z.number().int().positive().nullable().optional(),
+  bracketChallenge: z.boolean().optional(),
+  bracketWinnerPoints: z.number().int().min(0).optional(),
+  bracketLengthPoints: z.number().int().min(0).optional(),
+  jokerAllowance: z.number().int().min(0).optional(),
+  jokerScope: z.enum(JOKER_SCOPES).optional(),
+  jokerMultiplier: z.number().int().min(2).max(10).optional(),
+  invitationExpiryDays: z.number().int().min(1).max(90).optional(),
 });
 
+export const scoringRuleParametersSchemas: Record<ScoringRuleType, z.ZodType<Record<string, any>>> = {
+  exact_score: z.object({ exclusive: z.boolean().default(true) }).strict(),
+  correct_winner: z.object({}).strict(),
+  correct_draw: z.object({}).strict(),
+  goal_difference: z.object({}).strict(),
+  team_score: z.object({}).strict(),
+  total_goals: z.object({ tolerance: z.number().int().min(0).default(0) }).strict(),
+  regulation_result: z.object({}).strict(),
+  goes_to_overtime: z.object({}).strict(),
+  result_type: z.object({}).strict(),
+};
+
 export const createScoringRuleSchema = z.object({
+  ruleType: z.enum(SCORING_RULE_TYPES),
   ruleDescription: z.string().optional(),
   points: z.number().int(),
+  parameters: z.record(z.string(), z.any()).default({}),
+});
+
+export const updateScoringRuleSchema = z.object({
+  ruleType: z.enum(SCORING_RULE_TYPES).optional(),
+  ruleDescription: z.string().optional(),
+  points: z.number().int().optional(),
+  parameters: z.record(z.string(), z.any()).optional(),
+});
+
+export const updateMemberRoleSchema = z.object({
+  role: z.enum(['admin', 'member']),
+});
+
+export const transferOwnershipSchema = z.object({
+  userId: z.number().int().positive(),
+});
+
+export const createJoinRequestSchema = z.object({
+  message: z.string().max(500).optional(),
+});
+
+export const createInviteLinkSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  expiresAt: z.coerce.date().optional(),
+  maxUses: z.number().int().positive().optional(),
+});
+
+export const updateInviteLinkSchema = z.object({
+  name: z.string().min(1).max(100).nullable().optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+  maxUses: z.number().int().positive().nullable().optional(),
 });
 
 export const inviteToGroupSchema = z.object({
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { MAIL_LANGUAGES } from '../utils/mailTemplates';
+
+export const MAX_BULK_INVITATIONS = 500;
+
+export const emailSchema = z.string().email();
+
+export const createInvitationSchema = z.object({
+  inviteeEmail: emailSchema,
+  groupId: z.number().int().positive(),
+  // Used when the invitee has no account yet, registered users get their own language
+  language: z.enum(MAIL_LANGUAGES).default('en'),
+});
+
+// Addresses are validated row by row so one bad address doesn't reject the whole list
+export const bulkInvitationSchema = z
+  .object({
+    groupId: z.coerce.number().int().positive(),
+    language: z.enum(MAIL_LANGUAGES).default('en'),
+    emails: z.array(z.string()).default([]),
+    csv: z.string().optional(),
+  })
+  .refine(data => data.emails.length > 0 || !!data.csv, {
+    message: 'Provide a list of emails or a CSV file',
+    path: ['emails'],
+  });
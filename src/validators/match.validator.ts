@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import { MATCH_RESULT_TYPES } from '../utils/matchResult';
+import { GOAL_STRENGTHS, MATCH_EVENT_TYPES, PERIOD_SECONDS, SHOOTOUT_PERIOD } from '../utils/matchTimeline';
+
+export const updateScoreSchema = z
+  .object({
+    homeScore: z.number().int().min(0),
+    awayScore: z.number().int().min(0),
+    resultType: z.enum(MATCH_RESULT_TYPES).default('regulation'),
+    regulationHomeScore: z.number().int().min(0).optional(),
+    regulationAwayScore: z.number().int().min(0).optional(),
+    status: z.enum(['live', 'finished']).optional(),
+  })
+  .superRefine((data, ctx) => {
+    const hasRegulationScore =
+      data.regulationHomeScore !== undefined || data.regulationAwayScore !== undefined;
+
+    if (data.resultType === 'regulation') {
+      if (
+        hasRegulationScore &&
+        (data.regulationHomeScore !== data.homeScore || data.regulationAwayScore !== data.awayScore)
+      ) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['regulationHomeScore'],
+          message: 'Regulation score must equal the final score for a regulation result',
+        });
+      }
+      return;
+    }
+
+    if (Math.abs(data.homeScore - data.awayScore) !== 1) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['homeScore'],
+        message: 'Overtime and shootout games are won by exactly one goal',
+      });
+    }
+
+    if (hasRegulationScore) {
+      const tiedScore = Math.min(data.homeScore, data.awayScore);
+      if (data.regulationHomeScore !== tiedScore || data.regulationAwayScore !== tiedScore) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['regulationHomeScore'],
+          message: 'Regulation score must be tied at the losing team\'s final score',
+        });
+      }
+    }
+  });
+
+// Rules that depend on the event type or the match teams are checked by the service
+export const createMatchEventSchema = z.object({
+  type: z.enum(MATCH_EVENT_TYPES),
+  period: z.number().int().min(1).max(SHOOTOUT_PERIOD),
+  periodTime: z.number().int().min(0).max(PERIOD_SECONDS).default(0),
+  teamId: z.number().int().positive().optional(),
+  player: z.string().min(1).max(100).optional(),
+  assists: z.array(z.string().min(1).max(100)).max(2).default([]),
+  strength: z.enum(GOAL_STRENGTHS).optional(),
+  penaltyMinutes: z.number().int().min(2).max(20).optional(),
+  description: z.string().max(500).optional(),
+});
+
+export const updateMatchEventSchema = z.object({
+  type: z.enum(MATCH_EVENT_TYPES).optional(),
+  period: z.number().int().min(1).max(SHOOTOUT_PERIOD).optional(),
+  periodTime: z.number().int().min(0).max(PERIOD_SECONDS).optional(),
+  teamId: z.number().int().positive().nullable().optional(),
+  player: z.string().min(1).max(100).nullable().optional(),
+  assists: z.array(z.string().min(1).max(100)).max(2).optional(),
+  strength: z.enum(GOAL_STRENGTHS).nullable().optional(),
+  penaltyMinutes: z.number().int().min(2).max(20).nullable().optional(),
+  description: z.string().max(500).nullable().optional(),
+});
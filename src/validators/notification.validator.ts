@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+export const NOTIFICATION_TYPES = [
+  'invitation_received',
+  'invitation_accepted',
+  'match_finished',
+  'points_earned',
+  'rank_changed',
+] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+// Without ids, every unread notification is marked as read
+export const markNotificationsReadSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1).optional(),
+});
+
+export const dismissNotificationsSchema = z
+  .object({
+    ids: z.array(z.number().int().positive()).min(1).optional(),
+    filter: z.enum(['read', 'all']).optional(),
+  })
+  .refine(data => (data.ids === undefined) !== (data.filter === undefined), {
+    message: 'Provide either ids or a filter',
+    path: ['ids'],
+  });
+
+export const updateNotificationPreferencesSchema = z.partialRecord(z.enum(NOTIFICATION_TYPES), z.boolean());
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+export const createBracketSchema = z.object({
+  // Team ids in seed order, the first one is seed 1
+  teamIds: z.array(z.number().int().positive()).min(2),
+  // Best-of per round, the last value is reused for later rounds
+  bestOf: z.array(z.number().int().positive().refine(n => n % 2 === 1, 'Series length must be odd')).min(1).default([7]),
+});
+
+export const submitBracketSchema = z.object({
+  picks: z.array(z.object({
+    seriesId: z.number().int().positive(),
+    winnerTeamId: z.number().int().positive(),
+    games: z.number().int().positive(),
+  })).min(1),
+});
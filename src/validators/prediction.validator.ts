@@ -1,13 +1,18 @@
 import { z } from 'zod';
+import { MATCH_RESULT_TYPES } from '../utils/matchResult';
 
 export const createPredictionSchema = z.object({
   matchId: z.number().int().positive(),
   groupId: z.number().int().positive(),
   homeScorePrediction: z.number().int().min(0),
   awayScorePrediction: z.number().int().min(0),
+  resultTypePrediction: z.enum(MATCH_RESULT_TYPES).optional(),
+  isJoker: z.boolean().optional(),
 });
 
 export const updatePredictionSchema = z.object({
   homeScorePrediction: z.number().int().min(0),
   awayScorePrediction: z.number().int().min(0),
+  resultTypePrediction: z.enum(MATCH_RESULT_TYPES).optional(),
+  isJoker: z.boolean().optional(),
 });
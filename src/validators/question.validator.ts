@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+export const QUESTION_TYPES = ['champion', 'top_scoring_team', 'last_place', 'custom'] as const;
+
+export const createQuestionSchema = z
+  .object({
+    type: z.enum(QUESTION_TYPES),
+    question: z.string().min(1).max(500),
+    options: z.array(z.string().min(1)).default([]),
+    points: z.number().int().min(0),
+    locksAt: z.coerce.date(),
+  })
+  .refine(data => data.type !== 'custom' || data.options.length >= 2, {
+    message: 'Custom questions need at least two options',
+    path: ['options'],
+  });
+
+export const updateQuestionSchema = z.object({
+  question: z.string().min(1).max(500).optional(),
+  options: z.array(z.string().min(1)).optional(),
+  points: z.number().int().min(0).optional(),
+  locksAt: z.coerce.date().optional(),
+});
+
+export const answerQuestionSchema = z.object({
+  // A team id for team questions, one of the options for custom questions
+  answer: z.union([z.string().min(1), z.number().int().positive()]).transform(String),
+});
+
+export const resolveQuestionSchema = z.object({
+  // Omit to resolve team questions from the competition standings
+  correctAnswer: z.union([z.string().min(1), z.number().int().positive()]).transform(String).optional(),
+});
@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import { PLATFORM_ROLES } from '../utils/jwt';
+
+export const updateRoleSchema = z.object({
+  role: z.enum(PLATFORM_ROLES),
+});
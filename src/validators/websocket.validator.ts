@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+const target = {
+  matchId: z.number().int().positive().optional(),
+  groupId: z.number().int().positive().optional(),
+};
+
+const hasOneTarget = (data: { matchId?: number; groupId?: number }) =>
+  (data.matchId === undefined) !== (data.groupId === undefined);
+
+const targetError = { message: 'Provide either matchId or groupId' };
+
+export const webSocketMessageSchema = z.discriminatedUnion('type', [
+  z
+    .object({
+      type: z.literal('subscribe'),
+      ...target,
+      // Replay the buffered events of this subscription newer than this id
+      lastEventId: z.number().int().min(0).optional(),
+    })
+    .refine(hasOneTarget, targetError),
+  z
+    .object({
+      type: z.literal('unsubscribe'),
+      ...target,
+    })
+    .refine(hasOneTarget, targetError),
+  // Renew the access token before it expires to keep the connection open
+  z.object({
+    type: z.literal('authenticate'),
+    token: z.string().min(1),
+  }),
+  z.object({
+    type: z.literal('ping'),
+  }),
+]);
+
+export type WebSocketMessage = z.infer<typeof webSocketMessageSchema>;